@@ -3,478 +3,340 @@
  * World Fairness Score Calculator
  *
  * This script calculates the World Fairness Score for all countries
- * using data from multiple international indices.
+ * using data from multiple international indices. All methodology and
+ * scoring math is shared with generate.ts via scoring.ts.
  *
  * Usage:
  *   npx ts-node scripts/world-fairness-score/calculate.ts
  *
  * Options:
- *   --output    Output file path (default: lib/data/world-fairness/calculated.json)
- *   --validate  Only validate without generating output
+ *   --output    Write CountryCalculation records to this JSON file
+ *   --validate  Validate methodology, raw and processed data (see validation.ts)
+ *               and calculate all countries without output
  *   --country   Calculate for single country (ISO3 code)
+ *   --imputation Strategy for dimensions without data (see imputation.ts)
+ *   --aggregation Dimension aggregation method (see AGGREGATION_METHODS in scoring.ts)
  *   --verbose   Show detailed calculation steps
+ *   --clamp-report Show how many countries hit each source's inputRange bounds
+ *   --coverage-report Show how many countries each dimension's sources cover
+ *   --methodology Methodology file to use instead of methodology.json
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  RawDataPoint,
+  CountryCalculation,
+  DimensionMapping,
+  DimensionScore,
+  SourceConfig,
+  normalizeValue,
+  calculateDimensionScore,
+  calculateFairnessScore,
+  calculateTrend,
+  calculateCountry,
+  getClampBoundary,
+  getSourceConfig,
+  sourceKey,
+  DIMENSION_WEIGHTS,
+  DIMENSION_MAPPINGS,
+  SOURCE_CONFIGS,
+  AGGREGATION_METHODS,
+  DEFAULT_AGGREGATION_METHOD,
+} from './scoring';
+import { getFieldConfig } from './methodology';
+import { COUNTRY_METADATA } from './countries';
+import { PROCESSED_DIR, loadDataPoints, loadExceptions, buildDataSnapshot, getCountries } from './data-loader';
+import { DEFAULT_IMPUTATION_STRATEGY, IMPUTATION_STRATEGIES } from './imputation';
+import { ScoringOptions, scoreCountriesWithHistory } from './pipeline';
+import { getArgValue, getChoiceArg, useMethodologyArg } from './cli';
+import { discoverSourcePlugins } from './fetch/registry';
+import { validateProcessedData, validateRawData, formatValidationReport, hasErrors } from './validation';
 
 // ============================================
-// TYPES
+// DATA LOADING
 // ============================================
 
-interface RawDataPoint {
-  countryIso3: string;
-  countryName: string;
-  sourceId: string;
-  field?: string;
-  year: number;
-  value: number;
-  estimated?: boolean;
-}
+/**
+ * Load every data/processed/*.json file into RawDataPoints, keeping all
+ * years of each source (see data-loader.ts).
+ */
+function loadRawData(): RawDataPoint[] {
+  console.log(`Loading raw data from ${PROCESSED_DIR}...`);
 
-interface DimensionScore {
-  score: number;
-  sources: {
-    sourceId: string;
-    rawValue: number;
-    normalizedValue: number;
-    weight: number;
-    estimated: boolean;
-  }[];
-  confidence: 'high' | 'medium' | 'low';
-}
+  if (!fs.existsSync(PROCESSED_DIR)) {
+    return [];
+  }
 
-interface CountryCalculation {
-  iso3: string;
-  name: string;
-  region: string;
-  subregion: string;
-  fairnessScore: number;
-  dimensions: Record<string, DimensionScore>;
-  trend: {
-    direction: 'improving' | 'declining' | 'stable';
-    change: number;
-    yearsCompared: number;
-  };
-  metadata: {
-    calculatedAt: string;
-    dataYear: number;
-    sourcesUsed: number;
-    estimatedFields: number;
-    confidence: 'high' | 'medium' | 'low';
-  };
+  return loadDataPoints(PROCESSED_DIR);
 }
 
-// ============================================
-// DIMENSION WEIGHTS (from methodology)
-// ============================================
-
-const DIMENSION_WEIGHTS: Record<string, number> = {
-  democraticVoice: 0.15,
-  pressFreedom: 0.15,
-  justiceAccess: 0.15,
-  economicOpportunity: 0.10,
-  workplaceRights: 0.10,
-  healthcareAccess: 0.10,
-  housingSecurity: 0.10,
-  consumerProtection: 0.05,
-  governmentResponsiveness: 0.05,
-  socialInclusion: 0.05,
-};
+/**
+ * Calculate every country that has data and country metadata, applying
+ * documented estimates from data/exceptions.json to dimensions without data,
+ * imputing whatever is still missing and scoring each past data year.
+ */
+function calculateAllCountries(
+  points: RawDataPoint[],
+  options: ScoringOptions,
+  onlyCountry: string | undefined,
+  verbose: boolean
+): CountryCalculation[] {
+  const skipped = getCountries(buildDataSnapshot(points)).filter(iso3 => !COUNTRY_METADATA[iso3]);
+  if (skipped.length > 0) {
+    console.log(`\nSkipped ${skipped.length} countries without metadata: ${skipped.join(', ')}`);
+  }
 
-// ============================================
-// SOURCE CONFIGURATIONS
-// ============================================
+  // Imputation draws on peer countries, so scoring runs on the full set
+  // even when only one country is requested
+  const calculations = scoreCountriesWithHistory(points, {
+    ...options,
+    verbose: iso3 => verbose && (!onlyCountry || iso3 === onlyCountry),
+  });
 
-interface SourceConfig {
-  id: string;
-  inputRange: [number, number];
-  invert: boolean;
+  return calculations
+    .filter(c => !onlyCountry || c.iso3 === onlyCountry)
+    .sort((a, b) => b.fairnessScore - a.fairnessScore);
 }
 
-const SOURCE_CONFIGS: Record<string, SourceConfig> = {
-  freedom_house_political: { id: 'freedom_house_political', inputRange: [0, 40], invert: false },
-  vdem_electoral: { id: 'vdem_electoral', inputRange: [0, 1], invert: false },
-  eiu_democracy: { id: 'eiu_democracy', inputRange: [0, 10], invert: false },
-  rsf_press_freedom: { id: 'rsf_press_freedom', inputRange: [0, 100], invert: true },
-  vdem_media: { id: 'vdem_media', inputRange: [0, 1], invert: false },
-  wjp_rule_of_law: { id: 'wjp_rule_of_law', inputRange: [0, 1], invert: false },
-  world_bank_gini: { id: 'world_bank_gini', inputRange: [20, 65], invert: true },
-  wef_social_mobility: { id: 'wef_social_mobility', inputRange: [0, 100], invert: false },
-  ituc_global_rights: { id: 'ituc_global_rights', inputRange: [1, 5.5], invert: true },
-  who_uhc: { id: 'who_uhc', inputRange: [0, 100], invert: false },
-  who_out_of_pocket: { id: 'who_out_of_pocket', inputRange: [0, 80], invert: true },
-  numbeo_property: { id: 'numbeo_property', inputRange: [2, 50], invert: true },
-  wgi_voice: { id: 'wgi_voice', inputRange: [-2.5, 2.5], invert: false },
-  wgi_effectiveness: { id: 'wgi_effectiveness', inputRange: [-2.5, 2.5], invert: false },
-  ti_cpi: { id: 'ti_cpi', inputRange: [0, 100], invert: false },
-  undp_gii: { id: 'undp_gii', inputRange: [0, 0.8], invert: true },
-  spi_personal_rights: { id: 'spi_personal_rights', inputRange: [0, 100], invert: false },
-};
-
-// ============================================
-// DIMENSION -> SOURCE MAPPINGS
-// ============================================
-
-interface DimensionSourceMapping {
-  dimension: string;
-  sources: { sourceId: string; weight: number; field?: string }[];
+interface ClampReportEntry {
+  sourceId: string;
+  field?: string;
+  countries: number;
+  belowMin: number;
+  aboveMax: number;
 }
 
-const DIMENSION_SOURCES: DimensionSourceMapping[] = [
-  {
-    dimension: 'democraticVoice',
-    sources: [
-      { sourceId: 'freedom_house_political', weight: 0.4 },
-      { sourceId: 'vdem_electoral', weight: 0.4 },
-      { sourceId: 'eiu_democracy', weight: 0.2 },
-    ],
-  },
-  {
-    dimension: 'pressFreedom',
-    sources: [
-      { sourceId: 'rsf_press_freedom', weight: 0.5 },
-      { sourceId: 'vdem_media', weight: 0.3 },
-      { sourceId: 'freedom_house_political', weight: 0.2 },
-    ],
-  },
-  {
-    dimension: 'justiceAccess',
-    sources: [
-      { sourceId: 'wjp_rule_of_law', weight: 0.5, field: 'civil_justice' },
-      { sourceId: 'wjp_rule_of_law', weight: 0.3, field: 'criminal_justice' },
-      { sourceId: 'wgi_voice', weight: 0.2 },
-    ],
-  },
-  {
-    dimension: 'economicOpportunity',
-    sources: [
-      { sourceId: 'world_bank_gini', weight: 0.4 },
-      { sourceId: 'wef_social_mobility', weight: 0.4 },
-      { sourceId: 'wgi_effectiveness', weight: 0.2 },
-    ],
-  },
-  {
-    dimension: 'workplaceRights',
-    sources: [
-      { sourceId: 'ituc_global_rights', weight: 0.7 },
-      { sourceId: 'wgi_voice', weight: 0.3 },
-    ],
-  },
-  {
-    dimension: 'healthcareAccess',
-    sources: [
-      { sourceId: 'who_uhc', weight: 0.6 },
-      { sourceId: 'who_out_of_pocket', weight: 0.4 },
-    ],
-  },
-  {
-    dimension: 'housingSecurity',
-    sources: [
-      { sourceId: 'numbeo_property', weight: 0.5 },
-      { sourceId: 'wgi_effectiveness', weight: 0.3 },
-      { sourceId: 'spi_personal_rights', weight: 0.2 },
-    ],
-  },
-  {
-    dimension: 'consumerProtection',
-    sources: [
-      { sourceId: 'wjp_rule_of_law', weight: 0.5, field: 'civil_justice' },
-      { sourceId: 'ti_cpi', weight: 0.3 },
-      { sourceId: 'wgi_effectiveness', weight: 0.2 },
-    ],
-  },
-  {
-    dimension: 'governmentResponsiveness',
-    sources: [
-      { sourceId: 'wgi_voice', weight: 0.3 },
-      { sourceId: 'wgi_effectiveness', weight: 0.3 },
-      { sourceId: 'ti_cpi', weight: 0.4 },
-    ],
-  },
-  {
-    dimension: 'socialInclusion',
-    sources: [
-      { sourceId: 'undp_gii', weight: 0.5 },
-      { sourceId: 'spi_personal_rights', weight: 0.5 },
-    ],
-  },
-];
-
-// ============================================
-// NORMALIZATION FUNCTIONS
-// ============================================
+/**
+ * For every source normalized against its `inputRange`, count the
+ * countries whose latest value lies below or above the range and so is
+ * clamped to 0 or 100.
+ */
+function buildClampReport(rawData: Map<string, RawDataPoint>): ClampReportEntry[] {
+  const report = new Map<string, ClampReportEntry>();
 
-function normalizeValue(
-  value: number,
-  config: SourceConfig
-): number {
-  const [min, max] = config.inputRange;
+  for (const point of rawData.values()) {
+    const config = getSourceConfig(point.sourceId, point.field);
+    if (!config) continue;
 
-  // Clamp to range
-  const clamped = Math.max(min, Math.min(max, value));
+    const key = sourceKey(point.sourceId, point.field);
+    if (!report.has(key)) {
+      report.set(key, { sourceId: point.sourceId, ...(point.field ? { field: point.field } : {}), countries: 0, belowMin: 0, aboveMax: 0 });
+    }
 
-  // Normalize to 0-1
-  let normalized = (clamped - min) / (max - min);
+    const entry = report.get(key)!;
+    entry.countries++;
 
-  // Invert if needed
-  if (config.invert) {
-    normalized = 1 - normalized;
+    const boundary = getClampBoundary(point.value, config);
+    if (boundary === 'min') entry.belowMin++;
+    if (boundary === 'max') entry.aboveMax++;
   }
 
-  // Scale to 0-100
-  return Math.round(normalized * 100 * 10) / 10;
+  return Array.from(report.values()).sort((a, b) => a.sourceId.localeCompare(b.sourceId));
 }
 
-// ============================================
-// CALCULATION FUNCTIONS
-// ============================================
-
-function calculateDimensionScore(
-  dimension: string,
-  rawData: Map<string, RawDataPoint>,
-  countryIso3: string,
-  verbose: boolean = false
-): DimensionScore {
-  const mapping = DIMENSION_SOURCES.find(d => d.dimension === dimension);
-  if (!mapping) {
-    throw new Error(`Unknown dimension: ${dimension}`);
+function printClampReport(rawData: Map<string, RawDataPoint>) {
+  console.log('\n' + '='.repeat(60));
+  console.log('CLAMP REPORT');
+  console.log('='.repeat(60));
+  console.log(`${'Source'.padEnd(32)} ${'Mode'.padEnd(10)} ${'Range'.padEnd(12)} ${'Countries'.padStart(9)} ${'< min'.padStart(6)} ${'> max'.padStart(6)}`);
+
+  for (const entry of buildClampReport(rawData)) {
+    const config = getSourceConfig(entry.sourceId, entry.field)!;
+    const name = entry.field ? `${entry.sourceId} (${entry.field})` : entry.sourceId;
+    const mode = config.normalization || 'linear';
+    const range = mode === 'linear' || mode === 'log' ? config.inputRange.join(' to ') : '-';
+    console.log(
+      `${name.padEnd(32)} ${mode.padEnd(10)} ${range.padEnd(12)} ${entry.countries.toString().padStart(9)} ` +
+      `${entry.belowMin.toString().padStart(6)} ${entry.aboveMax.toString().padStart(6)}`
+    );
   }
+}
 
-  const sourceScores: DimensionScore['sources'] = [];
-  let totalWeight = 0;
-  let weightedSum = 0;
-  let estimatedCount = 0;
-
-  for (const source of mapping.sources) {
-    const dataKey = `${countryIso3}_${source.sourceId}${source.field ? '_' + source.field : ''}`;
-    const dataPoint = rawData.get(dataKey);
-
-    if (dataPoint) {
-      const config = SOURCE_CONFIGS[source.sourceId];
-      if (!config) continue;
+interface CoverageReportEntry {
+  dimension: string;
+  countries: number;
+  // Countries whose dimension score comes from source data (rather than
+  // an estimate or imputation)
+  measured: number;
+  // Mean share of the dimension's source weight with data, over the
+  // measured countries
+  weightCovered: number;
+  sources: { sourceId: string; field?: string; weight: number; countries: number }[];
+}
 
-      const normalized = normalizeValue(dataPoint.value, config);
+/**
+ * For every dimension, count the countries each mapped source was used
+ * for, so reviewers can see when a dimension rests mostly on proxies.
+ */
+function buildCoverageReport(calculations: CountryCalculation[]): CoverageReportEntry[] {
+  return DIMENSION_MAPPINGS.map(mapping => {
+    const used = calculations.map(c => c.dimensions[mapping.dimension]?.sources || []);
+    const isUsed = (sources: DimensionScore['sources'], source: DimensionMapping['sources'][number]) =>
+      sources.some(s => s.sourceId === source.sourceId && s.field === source.field);
+
+    const measured = used.filter(sources => sources.length > 0);
+    const covered = measured.map(sources =>
+      mapping.sources.filter(source => isUsed(sources, source)).reduce((sum, source) => sum + source.weight, 0)
+    );
 
-      sourceScores.push({
+    return {
+      dimension: mapping.dimension,
+      countries: calculations.length,
+      measured: measured.length,
+      weightCovered: covered.length > 0 ? covered.reduce((sum, w) => sum + w, 0) / covered.length : 0,
+      sources: mapping.sources.map(source => ({
         sourceId: source.sourceId,
-        rawValue: dataPoint.value,
-        normalizedValue: normalized,
+        ...(source.field ? { field: source.field } : {}),
         weight: source.weight,
-        estimated: dataPoint.estimated || false,
-      });
+        countries: used.filter(sources => isUsed(sources, source)).length,
+      })),
+    };
+  });
+}
 
-      weightedSum += normalized * source.weight;
-      totalWeight += source.weight;
+function printCoverageReport(calculations: CountryCalculation[]) {
+  console.log('\n' + '='.repeat(60));
+  console.log('COVERAGE REPORT');
+  console.log('='.repeat(60));
+  console.log(`${'Dimension / source'.padEnd(40)} ${'Weight'.padStart(6)} ${'Countries'.padStart(9)} ${'Share'.padStart(6)}`);
 
-      if (dataPoint.estimated) estimatedCount++;
+  const percent = (count: number, total: number) => `${total > 0 ? Math.round((count / total) * 100) : 0}%`;
 
-      if (verbose) {
-        console.log(`  ${source.sourceId}: ${dataPoint.value} -> ${normalized} (weight: ${source.weight})`);
-      }
+  for (const entry of buildCoverageReport(calculations)) {
+    console.log(
+      `\n${entry.dimension.padEnd(40)} ${''.padStart(6)} ${entry.measured.toString().padStart(9)} ` +
+      `${percent(entry.measured, entry.countries).padStart(6)}  (weight covered: ${Math.round(entry.weightCovered * 100)}%)`
+    );
+    for (const source of entry.sources) {
+      const name = source.field ? `${source.sourceId} (${source.field})` : source.sourceId;
+      console.log(
+        `  ${name.padEnd(38)} ${source.weight.toString().padStart(6)} ${source.countries.toString().padStart(9)} ` +
+        `${percent(source.countries, entry.countries).padStart(6)}`
+      );
     }
   }
+}
 
-  // Calculate final score
-  const score = totalWeight > 0 ? Math.round((weightedSum / totalWeight) * 10) / 10 : 0;
-
-  // Determine confidence
-  let confidence: 'high' | 'medium' | 'low' = 'high';
-  if (totalWeight < 0.5 || estimatedCount > sourceScores.length / 2) {
-    confidence = 'low';
-  } else if (totalWeight < 0.8 || estimatedCount > 0) {
-    confidence = 'medium';
-  }
-
-  return {
-    score,
-    sources: sourceScores,
-    confidence,
-  };
+function normalizationDiffers(
+  a: Pick<SourceConfig, 'inputRange' | 'invert' | 'normalization'>,
+  b: Pick<SourceConfig, 'inputRange' | 'invert' | 'normalization'>
+): boolean {
+  return a.inputRange.join() !== b.inputRange.join() ||
+    a.invert !== b.invert ||
+    (a.normalization || 'linear') !== (b.normalization || 'linear');
 }
 
-function calculateFairnessScore(dimensions: Record<string, DimensionScore>): number {
-  let weightedSum = 0;
-  let totalWeight = 0;
+// ============================================
+// CLI INTERFACE
+// ============================================
 
-  for (const [dimension, data] of Object.entries(dimensions)) {
-    const weight = DIMENSION_WEIGHTS[dimension] || 0;
-    weightedSum += data.score * weight;
-    totalWeight += weight;
-  }
+function main() {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const validateOnly = args.includes('--validate');
 
-  return totalWeight > 0 ? Math.round(weightedSum / totalWeight) : 0;
-}
+  console.log('='.repeat(60));
+  console.log('World Fairness Score Calculator v1.0.0');
+  console.log('='.repeat(60));
 
-function calculateTrend(
-  currentScore: number,
-  historicalScores: { year: number; score: number }[]
-): CountryCalculation['trend'] {
-  if (historicalScores.length === 0) {
-    return { direction: 'stable', change: 0, yearsCompared: 0 };
+  // Load the methodology (validated against the methodology file format,
+  // including that dimension and source weights sum to 1)
+  const methodology = useMethodologyArg(args);
+  console.log(`\nMethodology: ${methodology.name} v${methodology.version} (sha256 ${methodology.hash.slice(0, 12)})`);
+  console.log('Methodology validation: PASSED');
+
+  // Compare with the default normalization declared by each source plugin
+  const declared = new Map(discoverSourcePlugins().flatMap(p => Object.entries(p.normalization)));
+  for (const config of Object.values(SOURCE_CONFIGS)) {
+    const defaults = declared.get(config.id);
+    if (!defaults) {
+      console.log(`WARNING: No fetcher in fetch/ provides ${config.id}`);
+    } else {
+      // The source itself and each field with its own settings
+      const fields = new Set([...Object.keys(defaults.fields || {}), ...Object.keys(config.fields || {})]);
+      for (const field of [undefined, ...fields]) {
+        if (normalizationDiffers(getFieldConfig(defaults, field), getFieldConfig(config, field))) {
+          const name = field ? `${config.id} (${field})` : config.id;
+          console.log(`Note: ${name} normalization differs from its fetcher's default`);
+        }
+      }
+    }
   }
 
-  // Find score from ~5 years ago
-  const targetYear = new Date().getFullYear() - 5;
-  const historicalScore = historicalScores
-    .filter(h => h.year <= targetYear)
-    .sort((a, b) => b.year - a.year)[0];
-
-  if (!historicalScore) {
-    return { direction: 'stable', change: 0, yearsCompared: 0 };
+  if (validateOnly) {
+    const processed = validateProcessedData(methodology);
+    const raw = validateRawData(discoverSourcePlugins());
+    console.log('\n' + formatValidationReport(raw, 'Raw data validation'));
+    console.log(formatValidationReport(processed, 'Processed data validation'));
+    if (hasErrors(raw) || hasErrors(processed)) {
+      console.error('\nERROR: Data validation failed');
+      process.exit(1);
+    }
   }
 
-  const change = Math.round(currentScore - historicalScore.score);
-  const cappedChange = Math.max(-15, Math.min(15, change));
-
-  let direction: 'improving' | 'declining' | 'stable' = 'stable';
-  if (cappedChange >= 3) direction = 'improving';
-  else if (cappedChange <= -3) direction = 'declining';
-
-  return {
-    direction,
-    change: cappedChange,
-    yearsCompared: new Date().getFullYear() - historicalScore.year,
-  };
-}
+  // Load data
+  const points = loadRawData();
 
-// ============================================
-// MAIN CALCULATION
-// ============================================
+  console.log(`\nLoaded ${points.length} data points`);
 
-function calculateCountry(
-  countryIso3: string,
-  countryName: string,
-  region: string,
-  subregion: string,
-  rawData: Map<string, RawDataPoint>,
-  historicalScores: { year: number; score: number }[],
-  verbose: boolean = false
-): CountryCalculation {
-  if (verbose) {
-    console.log(`\nCalculating: ${countryName} (${countryIso3})`);
+  if (points.length === 0) {
+    console.log('\nNo processed data loaded. To generate real scores:');
+    console.log('1. Run data fetchers: npm run fetch:all');
+    console.log('2. Re-run this script');
+    if (validateOnly) process.exit(1);
+    return;
   }
 
-  // Calculate each dimension
-  const dimensions: Record<string, DimensionScore> = {};
-  for (const mapping of DIMENSION_SOURCES) {
-    dimensions[mapping.dimension] = calculateDimensionScore(
-      mapping.dimension,
-      rawData,
-      countryIso3,
-      verbose
-    );
-  }
+  // Calculate all countries
+  const onlyCountry = getArgValue(args, '--country')?.toUpperCase();
+  const imputation = getChoiceArg(args, '--imputation', Object.keys(IMPUTATION_STRATEGIES), DEFAULT_IMPUTATION_STRATEGY);
+  const aggregation = getChoiceArg(args, '--aggregation', Object.keys(AGGREGATION_METHODS), DEFAULT_AGGREGATION_METHOD);
 
-  // Calculate final score
-  const fairnessScore = calculateFairnessScore(dimensions);
+  const calculations = calculateAllCountries(
+    points,
+    { exceptions: loadExceptions(), imputation, aggregation },
+    onlyCountry,
+    verbose
+  );
 
-  // Calculate trend
-  const trend = calculateTrend(fairnessScore, historicalScores);
+  console.log(`\nCalculated ${calculations.length} countries (aggregation: ${aggregation})`);
 
-  // Count sources and estimated fields
-  let sourcesUsed = 0;
-  let estimatedFields = 0;
-  for (const dim of Object.values(dimensions)) {
-    sourcesUsed += dim.sources.length;
-    estimatedFields += dim.sources.filter(s => s.estimated).length;
+  if (onlyCountry && calculations.length === 0) {
+    console.error(`ERROR: No data or metadata for country ${onlyCountry}`);
+    process.exit(1);
   }
 
-  // Determine overall confidence
-  const lowConfidenceCount = Object.values(dimensions).filter(d => d.confidence === 'low').length;
-  let confidence: 'high' | 'medium' | 'low' = 'high';
-  if (lowConfidenceCount > 3) confidence = 'low';
-  else if (lowConfidenceCount > 0) confidence = 'medium';
+  const lowConfidence = calculations.filter(c => c.metadata.confidence === 'low').length;
+  console.log(`Low confidence: ${lowConfidence} countries`);
+  const stale = calculations.filter(c => c.metadata.staleValues > 0).length;
+  console.log(`Stale source data: ${stale} countries`);
 
-  if (verbose) {
-    console.log(`  Final Score: ${fairnessScore}%`);
-    console.log(`  Trend: ${trend.direction} (${trend.change > 0 ? '+' : ''}${trend.change})`);
+  if (args.includes('--clamp-report')) {
+    printClampReport(buildDataSnapshot(points));
   }
 
-  return {
-    iso3: countryIso3,
-    name: countryName,
-    region,
-    subregion,
-    fairnessScore,
-    dimensions,
-    trend,
-    metadata: {
-      calculatedAt: new Date().toISOString(),
-      dataYear: new Date().getFullYear(),
-      sourcesUsed,
-      estimatedFields,
-      confidence,
-    },
-  };
-}
-
-// ============================================
-// DATA LOADING (placeholder for real implementation)
-// ============================================
-
-/**
- * In a real implementation, this would:
- * 1. Load data from CSV/JSON files in /data/raw/
- * 2. Fetch from APIs where available
- * 3. Merge and validate data
- */
-function loadRawData(): Map<string, RawDataPoint> {
-  // This is a placeholder - real implementation would load actual data files
-  console.log('Loading raw data from sources...');
-  console.log('NOTE: Replace this with actual data loading from:');
-  console.log('  - data/raw/freedom_house_2024.csv');
-  console.log('  - data/raw/rsf_press_freedom_2024.csv');
-  console.log('  - data/raw/wjp_rule_of_law_2024.csv');
-  console.log('  - etc.');
-
-  return new Map();
-}
-
-// ============================================
-// CLI INTERFACE
-// ============================================
-
-function main() {
-  const args = process.argv.slice(2);
-  const verbose = args.includes('--verbose');
-  const validateOnly = args.includes('--validate');
-
-  console.log('='.repeat(60));
-  console.log('World Fairness Score Calculator v1.0.0');
-  console.log('='.repeat(60));
-
-  // Validate weights
-  const weightSum = Object.values(DIMENSION_WEIGHTS).reduce((a, b) => a + b, 0);
-  console.log(`\nDimension weights sum: ${weightSum.toFixed(2)} (should be 1.00)`);
-
-  if (Math.abs(weightSum - 1.0) > 0.001) {
-    console.error('ERROR: Dimension weights do not sum to 1.0!');
-    process.exit(1);
+  if (args.includes('--coverage-report')) {
+    printCoverageReport(calculations);
   }
 
-  console.log('Weight validation: PASSED');
-
   if (validateOnly) {
     console.log('\nValidation complete. Use without --validate to generate scores.');
     return;
   }
 
-  // Load data
-  const rawData = loadRawData();
-
-  console.log(`\nLoaded ${rawData.size} data points`);
-
-  if (rawData.size === 0) {
-    console.log('\nNo raw data loaded. To generate real scores:');
-    console.log('1. Download source data to data/raw/ directory');
-    console.log('2. Run data fetchers: npm run fetch-wfs-data');
-    console.log('3. Re-run this script');
-    return;
+  for (let i = 0; i < calculations.length; i++) {
+    const c = calculations[i];
+    const trend = c.trend.yearsCompared > 0 ? ` ${c.trend.direction} (${c.trend.change > 0 ? '+' : ''}${c.trend.change})` : '';
+    console.log(`${(i + 1).toString().padStart(3)}. ${c.name.padEnd(25)} ${c.fairnessScore}% (${c.metadata.confidence})${trend}`);
   }
 
-  // Calculate all countries
-  // (Implementation would iterate through all countries)
+  const outputPath = getArgValue(args, '--output');
+  if (outputPath) {
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, JSON.stringify(calculations, null, 2));
+    console.log(`\nSaved calculations to ${outputPath}`);
+  }
 
   console.log('\nCalculation complete!');
 }
@@ -491,6 +353,10 @@ export {
   calculateFairnessScore,
   calculateTrend,
   calculateCountry,
+  calculateAllCountries,
+  loadRawData,
+  buildClampReport,
+  buildCoverageReport,
   DIMENSION_WEIGHTS,
   SOURCE_CONFIGS,
 };
@@ -0,0 +1,76 @@
+/**
+ * Command-line helpers shared by the scripts in this repository.
+ */
+
+import { Methodology, loadMethodology } from './methodology';
+import { useMethodology, getMethodology } from './scoring';
+
+/**
+ * Value following `--name` in the argument list, e.g. `--country NOR`.
+ */
+export function getArgValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Value of `--name` checked against the `available` choices, or `fallback`
+ * when the option is not given. Exits with an error for unknown values.
+ */
+export function getChoiceArg(args: string[], name: string, available: string[], fallback: string): string {
+  const value = getArgValue(args, name) || fallback;
+  if (!available.includes(value)) {
+    console.error(`ERROR: Unknown ${name.replace(/^--/, '')} "${value}". Available: ${available.join(', ')}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Positive number following `--name`, or `fallback` when the option is not
+ * given. Exits with an error for anything else.
+ */
+export function parseNumberArg(args: string[], name: string, fallback: number): number {
+  const value = getArgValue(args, name);
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    console.error(`ERROR: ${name} must be a positive number, got "${value}"`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Whole number of at least `min` following `--name`, or `fallback` when
+ * the option is not given. Exits with an error for anything else.
+ */
+export function parseIntegerArg(args: string[], name: string, fallback: number, min: number = 0): number {
+  const value = getArgValue(args, name);
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    console.error(`ERROR: ${name} must be a whole number of at least ${min}, got "${value}"`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Activate the methodology file given with `--methodology`, if any, and
+ * return the active methodology. Exits with an error for invalid files.
+ */
+export function useMethodologyArg(args: string[]): Methodology {
+  const filePath = getArgValue(args, '--methodology');
+  if (filePath) {
+    try {
+      useMethodology(loadMethodology(filePath));
+    } catch (error) {
+      console.error(`ERROR: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
+  return getMethodology();
+}
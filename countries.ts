@@ -0,0 +1,246 @@
+/**
+ * Country Metadata
+ *
+ * Names, regions and basic statistics for every country we score.
+ * Shared by calculate.ts, generate.ts and the data loaders.
+ */
+
+// ============================================
+// COUNTRY METADATA
+// ============================================
+
+export interface CountryMeta {
+  name: string;
+  region: string;
+  subregion: string;
+  population: number;
+  gdpPerCapita: number;
+  keyFacts?: string[];
+}
+
+export const COUNTRY_METADATA: Record<string, CountryMeta> = {
+  // Europe - Nordic
+  NOR: { name: 'Norway', region: 'europe', subregion: 'nordic', population: 5.5, gdpPerCapita: 89154 },
+  DNK: { name: 'Denmark', region: 'europe', subregion: 'nordic', population: 5.9, gdpPerCapita: 67803 },
+  FIN: { name: 'Finland', region: 'europe', subregion: 'nordic', population: 5.5, gdpPerCapita: 53655 },
+  SWE: { name: 'Sweden', region: 'europe', subregion: 'nordic', population: 10.5, gdpPerCapita: 55873 },
+  ISL: { name: 'Iceland', region: 'europe', subregion: 'nordic', population: 0.4, gdpPerCapita: 73466 },
+
+  // Europe - Western
+  NLD: { name: 'Netherlands', region: 'europe', subregion: 'western', population: 17.5, gdpPerCapita: 57768 },
+  DEU: { name: 'Germany', region: 'europe', subregion: 'western', population: 84, gdpPerCapita: 48718 },
+  FRA: { name: 'France', region: 'europe', subregion: 'western', population: 68, gdpPerCapita: 42330 },
+  BEL: { name: 'Belgium', region: 'europe', subregion: 'western', population: 11.6, gdpPerCapita: 51247 },
+  AUT: { name: 'Austria', region: 'europe', subregion: 'western', population: 9, gdpPerCapita: 53638 },
+  CHE: { name: 'Switzerland', region: 'europe', subregion: 'western', population: 8.7, gdpPerCapita: 93457 },
+  LUX: { name: 'Luxembourg', region: 'europe', subregion: 'western', population: 0.65, gdpPerCapita: 128259 },
+  IRL: { name: 'Ireland', region: 'europe', subregion: 'western', population: 5.1, gdpPerCapita: 99152 },
+  GBR: { name: 'United Kingdom', region: 'europe', subregion: 'western', population: 67, gdpPerCapita: 45850 },
+
+  // Europe - Southern
+  ESP: { name: 'Spain', region: 'europe', subregion: 'southern', population: 47.4, gdpPerCapita: 30104 },
+  ITA: { name: 'Italy', region: 'europe', subregion: 'southern', population: 59, gdpPerCapita: 34776 },
+  PRT: { name: 'Portugal', region: 'europe', subregion: 'southern', population: 10.3, gdpPerCapita: 24568 },
+  GRC: { name: 'Greece', region: 'europe', subregion: 'southern', population: 10.4, gdpPerCapita: 20193 },
+
+  // Europe - Central
+  POL: { name: 'Poland', region: 'europe', subregion: 'central', population: 38, gdpPerCapita: 17841 },
+  CZE: { name: 'Czech Republic', region: 'europe', subregion: 'central', population: 10.5, gdpPerCapita: 26379 },
+  HUN: { name: 'Hungary', region: 'europe', subregion: 'central', population: 9.7, gdpPerCapita: 18728 },
+  SVK: { name: 'Slovakia', region: 'europe', subregion: 'central', population: 5.4, gdpPerCapita: 21053 },
+  SVN: { name: 'Slovenia', region: 'europe', subregion: 'central', population: 2.1, gdpPerCapita: 28439 },
+
+  // Europe - Baltic
+  EST: { name: 'Estonia', region: 'europe', subregion: 'baltic', population: 1.3, gdpPerCapita: 27282 },
+  LVA: { name: 'Latvia', region: 'europe', subregion: 'baltic', population: 1.9, gdpPerCapita: 21148 },
+  LTU: { name: 'Lithuania', region: 'europe', subregion: 'baltic', population: 2.8, gdpPerCapita: 23433 },
+
+  // Europe - Eastern
+  UKR: { name: 'Ukraine', region: 'europe', subregion: 'eastern', population: 44, gdpPerCapita: 4835 },
+  MDA: { name: 'Moldova', region: 'europe', subregion: 'eastern', population: 2.6, gdpPerCapita: 5563 },
+  ROU: { name: 'Romania', region: 'europe', subregion: 'eastern', population: 19, gdpPerCapita: 14858 },
+  BGR: { name: 'Bulgaria', region: 'europe', subregion: 'eastern', population: 6.9, gdpPerCapita: 12221 },
+  RUS: { name: 'Russia', region: 'europe', subregion: 'eastern', population: 144, gdpPerCapita: 12195 },
+  BLR: { name: 'Belarus', region: 'europe', subregion: 'eastern', population: 9.4, gdpPerCapita: 7302 },
+
+  // Europe - Balkans
+  SRB: { name: 'Serbia', region: 'europe', subregion: 'balkans', population: 6.9, gdpPerCapita: 9230 },
+  MNE: { name: 'Montenegro', region: 'europe', subregion: 'balkans', population: 0.62, gdpPerCapita: 9466 },
+  MKD: { name: 'North Macedonia', region: 'europe', subregion: 'balkans', population: 2.1, gdpPerCapita: 6722 },
+  ALB: { name: 'Albania', region: 'europe', subregion: 'balkans', population: 2.9, gdpPerCapita: 6494 },
+  BIH: { name: 'Bosnia and Herzegovina', region: 'europe', subregion: 'balkans', population: 3.3, gdpPerCapita: 7585 },
+  GEO: { name: 'Georgia', region: 'europe', subregion: 'caucasus', population: 3.7, gdpPerCapita: 6673 },
+  AZE: { name: 'Azerbaijan', region: 'europe', subregion: 'caucasus', population: 10.1, gdpPerCapita: 6054 },
+
+  // Americas
+  USA: { name: 'United States', region: 'americas', subregion: 'north', population: 332, gdpPerCapita: 76399 },
+  CAN: { name: 'Canada', region: 'americas', subregion: 'north', population: 38, gdpPerCapita: 52085 },
+  MEX: { name: 'Mexico', region: 'americas', subregion: 'north', population: 128, gdpPerCapita: 10046 },
+  BRA: { name: 'Brazil', region: 'americas', subregion: 'south', population: 214, gdpPerCapita: 8918 },
+  ARG: { name: 'Argentina', region: 'americas', subregion: 'south', population: 45, gdpPerCapita: 10636 },
+  CHL: { name: 'Chile', region: 'americas', subregion: 'south', population: 19, gdpPerCapita: 15355 },
+  COL: { name: 'Colombia', region: 'americas', subregion: 'south', population: 51, gdpPerCapita: 6104 },
+  PER: { name: 'Peru', region: 'americas', subregion: 'south', population: 33, gdpPerCapita: 6644 },
+  ECU: { name: 'Ecuador', region: 'americas', subregion: 'south', population: 18, gdpPerCapita: 6181 },
+  VEN: { name: 'Venezuela', region: 'americas', subregion: 'south', population: 28, gdpPerCapita: 3740 },
+  URY: { name: 'Uruguay', region: 'americas', subregion: 'south', population: 3.5, gdpPerCapita: 17278 },
+  CRI: { name: 'Costa Rica', region: 'americas', subregion: 'central', population: 5.1, gdpPerCapita: 12509 },
+  CUB: { name: 'Cuba', region: 'americas', subregion: 'caribbean', population: 11, gdpPerCapita: 9478 },
+  NIC: { name: 'Nicaragua', region: 'americas', subregion: 'central', population: 6.6, gdpPerCapita: 2029 },
+
+  // Asia-Pacific
+  JPN: { name: 'Japan', region: 'asia', subregion: 'east', population: 125, gdpPerCapita: 33815 },
+  KOR: { name: 'South Korea', region: 'asia', subregion: 'east', population: 52, gdpPerCapita: 32255 },
+  CHN: { name: 'China', region: 'asia', subregion: 'east', population: 1412, gdpPerCapita: 12720 },
+  TWN: { name: 'Taiwan', region: 'asia', subregion: 'east', population: 24, gdpPerCapita: 32756 },
+  IND: { name: 'India', region: 'asia', subregion: 'south', population: 1380, gdpPerCapita: 2257 },
+  IDN: { name: 'Indonesia', region: 'asia', subregion: 'southeast', population: 274, gdpPerCapita: 4333 },
+  PHL: { name: 'Philippines', region: 'asia', subregion: 'southeast', population: 110, gdpPerCapita: 3461 },
+  THA: { name: 'Thailand', region: 'asia', subregion: 'southeast', population: 70, gdpPerCapita: 7066 },
+  MYS: { name: 'Malaysia', region: 'asia', subregion: 'southeast', population: 32, gdpPerCapita: 11399 },
+  SGP: { name: 'Singapore', region: 'asia', subregion: 'southeast', population: 5.5, gdpPerCapita: 64103 },
+  VNM: { name: 'Vietnam', region: 'asia', subregion: 'southeast', population: 98, gdpPerCapita: 3756 },
+  MMR: { name: 'Myanmar', region: 'asia', subregion: 'southeast', population: 54, gdpPerCapita: 1210 },
+  PRK: { name: 'North Korea', region: 'asia', subregion: 'east', population: 26, gdpPerCapita: 1800 },
+  AUS: { name: 'Australia', region: 'oceania', subregion: 'australasia', population: 26, gdpPerCapita: 64674 },
+  NZL: { name: 'New Zealand', region: 'oceania', subregion: 'australasia', population: 5, gdpPerCapita: 48781 },
+
+  // Middle East
+  ISR: { name: 'Israel', region: 'asia', subregion: 'middle-east', population: 9.3, gdpPerCapita: 54930 },
+  SAU: { name: 'Saudi Arabia', region: 'asia', subregion: 'middle-east', population: 35, gdpPerCapita: 23186 },
+  ARE: { name: 'United Arab Emirates', region: 'asia', subregion: 'middle-east', population: 10, gdpPerCapita: 43103 },
+  IRN: { name: 'Iran', region: 'asia', subregion: 'middle-east', population: 87, gdpPerCapita: 4071 },
+  IRQ: { name: 'Iraq', region: 'asia', subregion: 'middle-east', population: 42, gdpPerCapita: 4775 },
+  JOR: { name: 'Jordan', region: 'asia', subregion: 'middle-east', population: 10, gdpPerCapita: 4103 },
+  LBN: { name: 'Lebanon', region: 'asia', subregion: 'middle-east', population: 5.5, gdpPerCapita: 4136 },
+  SYR: { name: 'Syria', region: 'asia', subregion: 'middle-east', population: 22, gdpPerCapita: 533 },
+
+  // Africa
+  ZAF: { name: 'South Africa', region: 'africa', subregion: 'southern', population: 60, gdpPerCapita: 6001 },
+  BWA: { name: 'Botswana', region: 'africa', subregion: 'southern', population: 2.4, gdpPerCapita: 7348 },
+  EGY: { name: 'Egypt', region: 'africa', subregion: 'north', population: 104, gdpPerCapita: 3548 },
+  MAR: { name: 'Morocco', region: 'africa', subregion: 'north', population: 37, gdpPerCapita: 3795 },
+  TUN: { name: 'Tunisia', region: 'africa', subregion: 'north', population: 12, gdpPerCapita: 3807 },
+  NGA: { name: 'Nigeria', region: 'africa', subregion: 'west', population: 213, gdpPerCapita: 2066 },
+  GHA: { name: 'Ghana', region: 'africa', subregion: 'west', population: 32, gdpPerCapita: 2363 },
+  SEN: { name: 'Senegal', region: 'africa', subregion: 'west', population: 17, gdpPerCapita: 1637 },
+  KEN: { name: 'Kenya', region: 'africa', subregion: 'east', population: 54, gdpPerCapita: 2007 },
+  TZA: { name: 'Tanzania', region: 'africa', subregion: 'east', population: 62, gdpPerCapita: 1136 },
+  ETH: { name: 'Ethiopia', region: 'africa', subregion: 'east', population: 118, gdpPerCapita: 944 },
+  RWA: { name: 'Rwanda', region: 'africa', subregion: 'east', population: 13, gdpPerCapita: 822 },
+  ERI: { name: 'Eritrea', region: 'africa', subregion: 'east', population: 3.6, gdpPerCapita: 643 },
+
+  // More Africa
+  NAM: { name: 'Namibia', region: 'africa', subregion: 'southern', population: 2.5, gdpPerCapita: 4866 },
+  CPV: { name: 'Cape Verde', region: 'africa', subregion: 'west', population: 0.6, gdpPerCapita: 3603 },
+  MUS: { name: 'Mauritius', region: 'africa', subregion: 'east', population: 1.3, gdpPerCapita: 10216 },
+  BEN: { name: 'Benin', region: 'africa', subregion: 'west', population: 13, gdpPerCapita: 1319 },
+  LSO: { name: 'Lesotho', region: 'africa', subregion: 'southern', population: 2.2, gdpPerCapita: 1118 },
+  MWI: { name: 'Malawi', region: 'africa', subregion: 'southern', population: 20, gdpPerCapita: 625 },
+  ZMB: { name: 'Zambia', region: 'africa', subregion: 'southern', population: 19, gdpPerCapita: 1095 },
+  LBR: { name: 'Liberia', region: 'africa', subregion: 'west', population: 5.2, gdpPerCapita: 672 },
+  SLE: { name: 'Sierra Leone', region: 'africa', subregion: 'west', population: 8.4, gdpPerCapita: 516 },
+  CIV: { name: "Côte d'Ivoire", region: 'africa', subregion: 'west', population: 27, gdpPerCapita: 2549 },
+  GMB: { name: 'Gambia', region: 'africa', subregion: 'west', population: 2.5, gdpPerCapita: 751 },
+  NER: { name: 'Niger', region: 'africa', subregion: 'west', population: 26, gdpPerCapita: 554 },
+  BFA: { name: 'Burkina Faso', region: 'africa', subregion: 'west', population: 22, gdpPerCapita: 831 },
+  MLI: { name: 'Mali', region: 'africa', subregion: 'west', population: 22, gdpPerCapita: 918 },
+  MOZ: { name: 'Mozambique', region: 'africa', subregion: 'southern', population: 32, gdpPerCapita: 504 },
+  AGO: { name: 'Angola', region: 'africa', subregion: 'southern', population: 34, gdpPerCapita: 1896 },
+  ZWE: { name: 'Zimbabwe', region: 'africa', subregion: 'southern', population: 16, gdpPerCapita: 1464 },
+  UGA: { name: 'Uganda', region: 'africa', subregion: 'east', population: 47, gdpPerCapita: 883 },
+  COD: { name: 'DR Congo', region: 'africa', subregion: 'central', population: 95, gdpPerCapita: 577 },
+  COG: { name: 'Congo', region: 'africa', subregion: 'central', population: 5.8, gdpPerCapita: 2280 },
+  CMR: { name: 'Cameroon', region: 'africa', subregion: 'central', population: 28, gdpPerCapita: 1662 },
+  TGO: { name: 'Togo', region: 'africa', subregion: 'west', population: 8.6, gdpPerCapita: 915 },
+  GIN: { name: 'Guinea', region: 'africa', subregion: 'west', population: 14, gdpPerCapita: 1166 },
+  GAB: { name: 'Gabon', region: 'africa', subregion: 'central', population: 2.3, gdpPerCapita: 8017 },
+  GNQ: { name: 'Equatorial Guinea', region: 'africa', subregion: 'central', population: 1.5, gdpPerCapita: 7273 },
+  TCD: { name: 'Chad', region: 'africa', subregion: 'central', population: 17, gdpPerCapita: 710 },
+  CAF: { name: 'Central African Republic', region: 'africa', subregion: 'central', population: 5, gdpPerCapita: 461 },
+  SDN: { name: 'Sudan', region: 'africa', subregion: 'north', population: 45, gdpPerCapita: 449 },
+  SSD: { name: 'South Sudan', region: 'africa', subregion: 'east', population: 11, gdpPerCapita: 393 },
+  SOM: { name: 'Somalia', region: 'africa', subregion: 'east', population: 17, gdpPerCapita: 447 },
+  DJI: { name: 'Djibouti', region: 'africa', subregion: 'east', population: 1, gdpPerCapita: 3428 },
+  BDI: { name: 'Burundi', region: 'africa', subregion: 'east', population: 12, gdpPerCapita: 259 },
+  MRT: { name: 'Mauritania', region: 'africa', subregion: 'west', population: 4.8, gdpPerCapita: 1679 },
+  MDG: { name: 'Madagascar', region: 'africa', subregion: 'east', population: 29, gdpPerCapita: 515 },
+  SWZ: { name: 'Eswatini', region: 'africa', subregion: 'southern', population: 1.2, gdpPerCapita: 3987 },
+  DZA: { name: 'Algeria', region: 'africa', subregion: 'north', population: 45, gdpPerCapita: 3691 },
+  LBY: { name: 'Libya', region: 'africa', subregion: 'north', population: 7, gdpPerCapita: 6018 },
+  SYC: { name: 'Seychelles', region: 'africa', subregion: 'east', population: 0.1, gdpPerCapita: 14653 },
+  COM: { name: 'Comoros', region: 'africa', subregion: 'east', population: 0.9, gdpPerCapita: 1402 },
+  GNB: { name: 'Guinea-Bissau', region: 'africa', subregion: 'west', population: 2, gdpPerCapita: 778 },
+  STP: { name: 'São Tomé and Príncipe', region: 'africa', subregion: 'central', population: 0.2, gdpPerCapita: 2181 },
+
+  // More Asia
+  PAK: { name: 'Pakistan', region: 'asia', subregion: 'south', population: 231, gdpPerCapita: 1505 },
+  BGD: { name: 'Bangladesh', region: 'asia', subregion: 'south', population: 170, gdpPerCapita: 2458 },
+  NPL: { name: 'Nepal', region: 'asia', subregion: 'south', population: 30, gdpPerCapita: 1208 },
+  LKA: { name: 'Sri Lanka', region: 'asia', subregion: 'south', population: 22, gdpPerCapita: 3815 },
+  KHM: { name: 'Cambodia', region: 'asia', subregion: 'southeast', population: 17, gdpPerCapita: 1625 },
+  LAO: { name: 'Laos', region: 'asia', subregion: 'southeast', population: 7.4, gdpPerCapita: 2551 },
+  MNG: { name: 'Mongolia', region: 'asia', subregion: 'east', population: 3.4, gdpPerCapita: 4566 },
+  KAZ: { name: 'Kazakhstan', region: 'asia', subregion: 'central', population: 19, gdpPerCapita: 10373 },
+  UZB: { name: 'Uzbekistan', region: 'asia', subregion: 'central', population: 34, gdpPerCapita: 1983 },
+  TKM: { name: 'Turkmenistan', region: 'asia', subregion: 'central', population: 6.1, gdpPerCapita: 7612 },
+  TJK: { name: 'Tajikistan', region: 'asia', subregion: 'central', population: 10, gdpPerCapita: 894 },
+  KGZ: { name: 'Kyrgyzstan', region: 'asia', subregion: 'central', population: 6.7, gdpPerCapita: 1276 },
+  AFG: { name: 'Afghanistan', region: 'asia', subregion: 'south', population: 40, gdpPerCapita: 364 },
+  BTN: { name: 'Bhutan', region: 'asia', subregion: 'south', population: 0.8, gdpPerCapita: 3266 },
+  MDV: { name: 'Maldives', region: 'asia', subregion: 'south', population: 0.5, gdpPerCapita: 10366 },
+  TLS: { name: 'Timor-Leste', region: 'asia', subregion: 'southeast', population: 1.3, gdpPerCapita: 1456 },
+  BRN: { name: 'Brunei', region: 'asia', subregion: 'southeast', population: 0.4, gdpPerCapita: 31449 },
+  HKG: { name: 'Hong Kong', region: 'asia', subregion: 'east', population: 7.5, gdpPerCapita: 48983 },
+
+  // More Middle East
+  QAT: { name: 'Qatar', region: 'asia', subregion: 'middle-east', population: 2.9, gdpPerCapita: 66838 },
+  KWT: { name: 'Kuwait', region: 'asia', subregion: 'middle-east', population: 4.3, gdpPerCapita: 24812 },
+  BHR: { name: 'Bahrain', region: 'asia', subregion: 'middle-east', population: 1.5, gdpPerCapita: 25293 },
+  OMN: { name: 'Oman', region: 'asia', subregion: 'middle-east', population: 5.2, gdpPerCapita: 19509 },
+  YEM: { name: 'Yemen', region: 'asia', subregion: 'middle-east', population: 32, gdpPerCapita: 691 },
+  PSE: { name: 'Palestine', region: 'asia', subregion: 'middle-east', population: 5.2, gdpPerCapita: 3664 },
+  TUR: { name: 'Turkey', region: 'asia', subregion: 'middle-east', population: 85, gdpPerCapita: 9586 },
+  ARM: { name: 'Armenia', region: 'europe', subregion: 'caucasus', population: 3, gdpPerCapita: 4966 },
+  CYP: { name: 'Cyprus', region: 'europe', subregion: 'southern', population: 1.2, gdpPerCapita: 28159 },
+  MLT: { name: 'Malta', region: 'europe', subregion: 'southern', population: 0.5, gdpPerCapita: 32912 },
+
+  // More Americas
+  PAN: { name: 'Panama', region: 'americas', subregion: 'central', population: 4.4, gdpPerCapita: 14617 },
+  JAM: { name: 'Jamaica', region: 'americas', subregion: 'caribbean', population: 3, gdpPerCapita: 5741 },
+  TTO: { name: 'Trinidad and Tobago', region: 'americas', subregion: 'caribbean', population: 1.4, gdpPerCapita: 15764 },
+  DOM: { name: 'Dominican Republic', region: 'americas', subregion: 'caribbean', population: 11, gdpPerCapita: 9700 },
+  BOL: { name: 'Bolivia', region: 'americas', subregion: 'south', population: 12, gdpPerCapita: 3500 },
+  PRY: { name: 'Paraguay', region: 'americas', subregion: 'south', population: 7.2, gdpPerCapita: 5414 },
+  GTM: { name: 'Guatemala', region: 'americas', subregion: 'central', population: 18, gdpPerCapita: 5025 },
+  SLV: { name: 'El Salvador', region: 'americas', subregion: 'central', population: 6.5, gdpPerCapita: 4551 },
+  HND: { name: 'Honduras', region: 'americas', subregion: 'central', population: 10, gdpPerCapita: 2831 },
+  HTI: { name: 'Haiti', region: 'americas', subregion: 'caribbean', population: 11, gdpPerCapita: 1653 },
+  GUY: { name: 'Guyana', region: 'americas', subregion: 'south', population: 0.8, gdpPerCapita: 9913 },
+  SUR: { name: 'Suriname', region: 'americas', subregion: 'south', population: 0.6, gdpPerCapita: 5155 },
+  BHS: { name: 'Bahamas', region: 'americas', subregion: 'caribbean', population: 0.4, gdpPerCapita: 32245 },
+  BRB: { name: 'Barbados', region: 'americas', subregion: 'caribbean', population: 0.3, gdpPerCapita: 16703 },
+  BLZ: { name: 'Belize', region: 'americas', subregion: 'central', population: 0.4, gdpPerCapita: 6094 },
+
+  // Oceania
+  PNG: { name: 'Papua New Guinea', region: 'oceania', subregion: 'melanesia', population: 9.1, gdpPerCapita: 2845 },
+  FJI: { name: 'Fiji', region: 'oceania', subregion: 'melanesia', population: 0.9, gdpPerCapita: 5316 },
+  SLB: { name: 'Solomon Islands', region: 'oceania', subregion: 'melanesia', population: 0.7, gdpPerCapita: 2379 },
+  VUT: { name: 'Vanuatu', region: 'oceania', subregion: 'melanesia', population: 0.3, gdpPerCapita: 3105 },
+  WSM: { name: 'Samoa', region: 'oceania', subregion: 'polynesia', population: 0.2, gdpPerCapita: 4067 },
+  TON: { name: 'Tonga', region: 'oceania', subregion: 'polynesia', population: 0.1, gdpPerCapita: 4903 },
+  KIR: { name: 'Kiribati', region: 'oceania', subregion: 'micronesia', population: 0.1, gdpPerCapita: 1693 },
+  MHL: { name: 'Marshall Islands', region: 'oceania', subregion: 'micronesia', population: 0.06, gdpPerCapita: 4073 },
+  FSM: { name: 'Micronesia', region: 'oceania', subregion: 'micronesia', population: 0.1, gdpPerCapita: 3584 },
+  PLW: { name: 'Palau', region: 'oceania', subregion: 'micronesia', population: 0.02, gdpPerCapita: 14907 },
+  NRU: { name: 'Nauru', region: 'oceania', subregion: 'micronesia', population: 0.01, gdpPerCapita: 10220 },
+  TUV: { name: 'Tuvalu', region: 'oceania', subregion: 'polynesia', population: 0.01, gdpPerCapita: 4673 },
+
+  // Small European states
+  AND: { name: 'Andorra', region: 'europe', subregion: 'southern', population: 0.08, gdpPerCapita: 40886 },
+  MCO: { name: 'Monaco', region: 'europe', subregion: 'western', population: 0.04, gdpPerCapita: 190513 },
+  SMR: { name: 'San Marino', region: 'europe', subregion: 'southern', population: 0.03, gdpPerCapita: 47622 },
+  LIE: { name: 'Liechtenstein', region: 'europe', subregion: 'western', population: 0.04, gdpPerCapita: 180366 },
+  HRV: { name: 'Croatia', region: 'europe', subregion: 'balkans', population: 4, gdpPerCapita: 17685 },
+  XKX: { name: 'Kosovo', region: 'europe', subregion: 'balkans', population: 1.8, gdpPerCapita: 5016 },
+};
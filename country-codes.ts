@@ -0,0 +1,477 @@
+/**
+ * Country Codes & Name Resolution
+ *
+ * Resolves the country identifiers found in source files to ISO3 codes:
+ *
+ * - ISO 3166-1 alpha-2, alpha-3 and numeric codes ("CI", "CIV", "384")
+ * - ISO short names, the names in COUNTRY_METADATA and a table of official
+ *   and common alternatives ("Côte d'Ivoire", "Ivory Coast",
+ *   "Congo (Kinshasa)", "Korea, South", "Türkiye", "Lao PDR", ...)
+ *
+ * Names are compared ignoring case, accents, punctuation and a leading
+ * "The", so "Côte d'Ivoire", "COTE D’IVOIRE" and "Cote dIvoire" all match.
+ * Kosovo uses the user-assigned code XKX, as in COUNTRY_METADATA.
+ *
+ * Importers should use a CountryResolver, which collects the names it
+ * couldn't match so the import can fail with the full list instead of
+ * dropping those rows.
+ */
+
+import { COUNTRY_METADATA } from './countries';
+
+// ============================================
+// ISO 3166-1
+// ============================================
+
+export interface CountryCode {
+  iso2: string;
+  iso3: string;
+  // Three digits, e.g. "004"; empty for user-assigned codes
+  numeric: string;
+  name: string;
+}
+
+// [alpha-2, alpha-3, numeric, short name]
+const ISO_3166: [string, string, string, string][] = [
+  ['AF', 'AFG', '004', 'Afghanistan'],
+  ['AX', 'ALA', '248', 'Åland Islands'],
+  ['AL', 'ALB', '008', 'Albania'],
+  ['DZ', 'DZA', '012', 'Algeria'],
+  ['AS', 'ASM', '016', 'American Samoa'],
+  ['AD', 'AND', '020', 'Andorra'],
+  ['AO', 'AGO', '024', 'Angola'],
+  ['AI', 'AIA', '660', 'Anguilla'],
+  ['AQ', 'ATA', '010', 'Antarctica'],
+  ['AG', 'ATG', '028', 'Antigua and Barbuda'],
+  ['AR', 'ARG', '032', 'Argentina'],
+  ['AM', 'ARM', '051', 'Armenia'],
+  ['AW', 'ABW', '533', 'Aruba'],
+  ['AU', 'AUS', '036', 'Australia'],
+  ['AT', 'AUT', '040', 'Austria'],
+  ['AZ', 'AZE', '031', 'Azerbaijan'],
+  ['BS', 'BHS', '044', 'Bahamas'],
+  ['BH', 'BHR', '048', 'Bahrain'],
+  ['BD', 'BGD', '050', 'Bangladesh'],
+  ['BB', 'BRB', '052', 'Barbados'],
+  ['BY', 'BLR', '112', 'Belarus'],
+  ['BE', 'BEL', '056', 'Belgium'],
+  ['BZ', 'BLZ', '084', 'Belize'],
+  ['BJ', 'BEN', '204', 'Benin'],
+  ['BM', 'BMU', '060', 'Bermuda'],
+  ['BT', 'BTN', '064', 'Bhutan'],
+  ['BO', 'BOL', '068', 'Bolivia'],
+  ['BQ', 'BES', '535', 'Bonaire, Sint Eustatius and Saba'],
+  ['BA', 'BIH', '070', 'Bosnia and Herzegovina'],
+  ['BW', 'BWA', '072', 'Botswana'],
+  ['BV', 'BVT', '074', 'Bouvet Island'],
+  ['BR', 'BRA', '076', 'Brazil'],
+  ['IO', 'IOT', '086', 'British Indian Ocean Territory'],
+  ['BN', 'BRN', '096', 'Brunei'],
+  ['BG', 'BGR', '100', 'Bulgaria'],
+  ['BF', 'BFA', '854', 'Burkina Faso'],
+  ['BI', 'BDI', '108', 'Burundi'],
+  ['CV', 'CPV', '132', 'Cabo Verde'],
+  ['KH', 'KHM', '116', 'Cambodia'],
+  ['CM', 'CMR', '120', 'Cameroon'],
+  ['CA', 'CAN', '124', 'Canada'],
+  ['KY', 'CYM', '136', 'Cayman Islands'],
+  ['CF', 'CAF', '140', 'Central African Republic'],
+  ['TD', 'TCD', '148', 'Chad'],
+  ['CL', 'CHL', '152', 'Chile'],
+  ['CN', 'CHN', '156', 'China'],
+  ['CX', 'CXR', '162', 'Christmas Island'],
+  ['CC', 'CCK', '166', 'Cocos (Keeling) Islands'],
+  ['CO', 'COL', '170', 'Colombia'],
+  ['KM', 'COM', '174', 'Comoros'],
+  ['CG', 'COG', '178', 'Congo'],
+  ['CD', 'COD', '180', 'Democratic Republic of the Congo'],
+  ['CK', 'COK', '184', 'Cook Islands'],
+  ['CR', 'CRI', '188', 'Costa Rica'],
+  ['CI', 'CIV', '384', "Côte d'Ivoire"],
+  ['HR', 'HRV', '191', 'Croatia'],
+  ['CU', 'CUB', '192', 'Cuba'],
+  ['CW', 'CUW', '531', 'Curaçao'],
+  ['CY', 'CYP', '196', 'Cyprus'],
+  ['CZ', 'CZE', '203', 'Czechia'],
+  ['DK', 'DNK', '208', 'Denmark'],
+  ['DJ', 'DJI', '262', 'Djibouti'],
+  ['DM', 'DMA', '212', 'Dominica'],
+  ['DO', 'DOM', '214', 'Dominican Republic'],
+  ['EC', 'ECU', '218', 'Ecuador'],
+  ['EG', 'EGY', '818', 'Egypt'],
+  ['SV', 'SLV', '222', 'El Salvador'],
+  ['GQ', 'GNQ', '226', 'Equatorial Guinea'],
+  ['ER', 'ERI', '232', 'Eritrea'],
+  ['EE', 'EST', '233', 'Estonia'],
+  ['SZ', 'SWZ', '748', 'Eswatini'],
+  ['ET', 'ETH', '231', 'Ethiopia'],
+  ['FK', 'FLK', '238', 'Falkland Islands'],
+  ['FO', 'FRO', '234', 'Faroe Islands'],
+  ['FJ', 'FJI', '242', 'Fiji'],
+  ['FI', 'FIN', '246', 'Finland'],
+  ['FR', 'FRA', '250', 'France'],
+  ['GF', 'GUF', '254', 'French Guiana'],
+  ['PF', 'PYF', '258', 'French Polynesia'],
+  ['TF', 'ATF', '260', 'French Southern Territories'],
+  ['GA', 'GAB', '266', 'Gabon'],
+  ['GM', 'GMB', '270', 'Gambia'],
+  ['GE', 'GEO', '268', 'Georgia'],
+  ['DE', 'DEU', '276', 'Germany'],
+  ['GH', 'GHA', '288', 'Ghana'],
+  ['GI', 'GIB', '292', 'Gibraltar'],
+  ['GR', 'GRC', '300', 'Greece'],
+  ['GL', 'GRL', '304', 'Greenland'],
+  ['GD', 'GRD', '308', 'Grenada'],
+  ['GP', 'GLP', '312', 'Guadeloupe'],
+  ['GU', 'GUM', '316', 'Guam'],
+  ['GT', 'GTM', '320', 'Guatemala'],
+  ['GG', 'GGY', '831', 'Guernsey'],
+  ['GN', 'GIN', '324', 'Guinea'],
+  ['GW', 'GNB', '624', 'Guinea-Bissau'],
+  ['GY', 'GUY', '328', 'Guyana'],
+  ['HT', 'HTI', '332', 'Haiti'],
+  ['HM', 'HMD', '334', 'Heard Island and McDonald Islands'],
+  ['VA', 'VAT', '336', 'Holy See'],
+  ['HN', 'HND', '340', 'Honduras'],
+  ['HK', 'HKG', '344', 'Hong Kong'],
+  ['HU', 'HUN', '348', 'Hungary'],
+  ['IS', 'ISL', '352', 'Iceland'],
+  ['IN', 'IND', '356', 'India'],
+  ['ID', 'IDN', '360', 'Indonesia'],
+  ['IR', 'IRN', '364', 'Iran'],
+  ['IQ', 'IRQ', '368', 'Iraq'],
+  ['IE', 'IRL', '372', 'Ireland'],
+  ['IM', 'IMN', '833', 'Isle of Man'],
+  ['IL', 'ISR', '376', 'Israel'],
+  ['IT', 'ITA', '380', 'Italy'],
+  ['JM', 'JAM', '388', 'Jamaica'],
+  ['JP', 'JPN', '392', 'Japan'],
+  ['JE', 'JEY', '832', 'Jersey'],
+  ['JO', 'JOR', '400', 'Jordan'],
+  ['KZ', 'KAZ', '398', 'Kazakhstan'],
+  ['KE', 'KEN', '404', 'Kenya'],
+  ['KI', 'KIR', '296', 'Kiribati'],
+  ['KP', 'PRK', '408', 'North Korea'],
+  ['KR', 'KOR', '410', 'South Korea'],
+  ['KW', 'KWT', '414', 'Kuwait'],
+  ['KG', 'KGZ', '417', 'Kyrgyzstan'],
+  ['LA', 'LAO', '418', 'Laos'],
+  ['LV', 'LVA', '428', 'Latvia'],
+  ['LB', 'LBN', '422', 'Lebanon'],
+  ['LS', 'LSO', '426', 'Lesotho'],
+  ['LR', 'LBR', '430', 'Liberia'],
+  ['LY', 'LBY', '434', 'Libya'],
+  ['LI', 'LIE', '438', 'Liechtenstein'],
+  ['LT', 'LTU', '440', 'Lithuania'],
+  ['LU', 'LUX', '442', 'Luxembourg'],
+  ['MO', 'MAC', '446', 'Macao'],
+  ['MG', 'MDG', '450', 'Madagascar'],
+  ['MW', 'MWI', '454', 'Malawi'],
+  ['MY', 'MYS', '458', 'Malaysia'],
+  ['MV', 'MDV', '462', 'Maldives'],
+  ['ML', 'MLI', '466', 'Mali'],
+  ['MT', 'MLT', '470', 'Malta'],
+  ['MH', 'MHL', '584', 'Marshall Islands'],
+  ['MQ', 'MTQ', '474', 'Martinique'],
+  ['MR', 'MRT', '478', 'Mauritania'],
+  ['MU', 'MUS', '480', 'Mauritius'],
+  ['YT', 'MYT', '175', 'Mayotte'],
+  ['MX', 'MEX', '484', 'Mexico'],
+  ['FM', 'FSM', '583', 'Micronesia'],
+  ['MD', 'MDA', '498', 'Moldova'],
+  ['MC', 'MCO', '492', 'Monaco'],
+  ['MN', 'MNG', '496', 'Mongolia'],
+  ['ME', 'MNE', '499', 'Montenegro'],
+  ['MS', 'MSR', '500', 'Montserrat'],
+  ['MA', 'MAR', '504', 'Morocco'],
+  ['MZ', 'MOZ', '508', 'Mozambique'],
+  ['MM', 'MMR', '104', 'Myanmar'],
+  ['NA', 'NAM', '516', 'Namibia'],
+  ['NR', 'NRU', '520', 'Nauru'],
+  ['NP', 'NPL', '524', 'Nepal'],
+  ['NL', 'NLD', '528', 'Netherlands'],
+  ['NC', 'NCL', '540', 'New Caledonia'],
+  ['NZ', 'NZL', '554', 'New Zealand'],
+  ['NI', 'NIC', '558', 'Nicaragua'],
+  ['NE', 'NER', '562', 'Niger'],
+  ['NG', 'NGA', '566', 'Nigeria'],
+  ['NU', 'NIU', '570', 'Niue'],
+  ['NF', 'NFK', '574', 'Norfolk Island'],
+  ['MK', 'MKD', '807', 'North Macedonia'],
+  ['MP', 'MNP', '580', 'Northern Mariana Islands'],
+  ['NO', 'NOR', '578', 'Norway'],
+  ['OM', 'OMN', '512', 'Oman'],
+  ['PK', 'PAK', '586', 'Pakistan'],
+  ['PW', 'PLW', '585', 'Palau'],
+  ['PS', 'PSE', '275', 'Palestine'],
+  ['PA', 'PAN', '591', 'Panama'],
+  ['PG', 'PNG', '598', 'Papua New Guinea'],
+  ['PY', 'PRY', '600', 'Paraguay'],
+  ['PE', 'PER', '604', 'Peru'],
+  ['PH', 'PHL', '608', 'Philippines'],
+  ['PN', 'PCN', '612', 'Pitcairn'],
+  ['PL', 'POL', '616', 'Poland'],
+  ['PT', 'PRT', '620', 'Portugal'],
+  ['PR', 'PRI', '630', 'Puerto Rico'],
+  ['QA', 'QAT', '634', 'Qatar'],
+  ['RE', 'REU', '638', 'Réunion'],
+  ['RO', 'ROU', '642', 'Romania'],
+  ['RU', 'RUS', '643', 'Russia'],
+  ['RW', 'RWA', '646', 'Rwanda'],
+  ['BL', 'BLM', '652', 'Saint Barthélemy'],
+  ['SH', 'SHN', '654', 'Saint Helena, Ascension and Tristan da Cunha'],
+  ['KN', 'KNA', '659', 'Saint Kitts and Nevis'],
+  ['LC', 'LCA', '662', 'Saint Lucia'],
+  ['MF', 'MAF', '663', 'Saint Martin (French part)'],
+  ['PM', 'SPM', '666', 'Saint Pierre and Miquelon'],
+  ['VC', 'VCT', '670', 'Saint Vincent and the Grenadines'],
+  ['WS', 'WSM', '882', 'Samoa'],
+  ['SM', 'SMR', '674', 'San Marino'],
+  ['ST', 'STP', '678', 'São Tomé and Príncipe'],
+  ['SA', 'SAU', '682', 'Saudi Arabia'],
+  ['SN', 'SEN', '686', 'Senegal'],
+  ['RS', 'SRB', '688', 'Serbia'],
+  ['SC', 'SYC', '690', 'Seychelles'],
+  ['SL', 'SLE', '694', 'Sierra Leone'],
+  ['SG', 'SGP', '702', 'Singapore'],
+  ['SX', 'SXM', '534', 'Sint Maarten (Dutch part)'],
+  ['SK', 'SVK', '703', 'Slovakia'],
+  ['SI', 'SVN', '705', 'Slovenia'],
+  ['SB', 'SLB', '090', 'Solomon Islands'],
+  ['SO', 'SOM', '706', 'Somalia'],
+  ['ZA', 'ZAF', '710', 'South Africa'],
+  ['GS', 'SGS', '239', 'South Georgia and the South Sandwich Islands'],
+  ['SS', 'SSD', '728', 'South Sudan'],
+  ['ES', 'ESP', '724', 'Spain'],
+  ['LK', 'LKA', '144', 'Sri Lanka'],
+  ['SD', 'SDN', '729', 'Sudan'],
+  ['SR', 'SUR', '740', 'Suriname'],
+  ['SJ', 'SJM', '744', 'Svalbard and Jan Mayen'],
+  ['SE', 'SWE', '752', 'Sweden'],
+  ['CH', 'CHE', '756', 'Switzerland'],
+  ['SY', 'SYR', '760', 'Syria'],
+  ['TW', 'TWN', '158', 'Taiwan'],
+  ['TJ', 'TJK', '762', 'Tajikistan'],
+  ['TZ', 'TZA', '834', 'Tanzania'],
+  ['TH', 'THA', '764', 'Thailand'],
+  ['TL', 'TLS', '626', 'Timor-Leste'],
+  ['TG', 'TGO', '768', 'Togo'],
+  ['TK', 'TKL', '772', 'Tokelau'],
+  ['TO', 'TON', '776', 'Tonga'],
+  ['TT', 'TTO', '780', 'Trinidad and Tobago'],
+  ['TN', 'TUN', '788', 'Tunisia'],
+  ['TR', 'TUR', '792', 'Türkiye'],
+  ['TM', 'TKM', '795', 'Turkmenistan'],
+  ['TC', 'TCA', '796', 'Turks and Caicos Islands'],
+  ['TV', 'TUV', '798', 'Tuvalu'],
+  ['UG', 'UGA', '800', 'Uganda'],
+  ['UA', 'UKR', '804', 'Ukraine'],
+  ['AE', 'ARE', '784', 'United Arab Emirates'],
+  ['GB', 'GBR', '826', 'United Kingdom'],
+  ['US', 'USA', '840', 'United States'],
+  ['UM', 'UMI', '581', 'United States Minor Outlying Islands'],
+  ['UY', 'URY', '858', 'Uruguay'],
+  ['UZ', 'UZB', '860', 'Uzbekistan'],
+  ['VU', 'VUT', '548', 'Vanuatu'],
+  ['VE', 'VEN', '862', 'Venezuela'],
+  ['VN', 'VNM', '704', 'Vietnam'],
+  ['VG', 'VGB', '092', 'British Virgin Islands'],
+  ['VI', 'VIR', '850', 'U.S. Virgin Islands'],
+  ['WF', 'WLF', '876', 'Wallis and Futuna'],
+  ['EH', 'ESH', '732', 'Western Sahara'],
+  ['YE', 'YEM', '887', 'Yemen'],
+  ['ZM', 'ZMB', '894', 'Zambia'],
+  ['ZW', 'ZWE', '716', 'Zimbabwe'],
+
+  // User-assigned
+  ['XK', 'XKX', '', 'Kosovo'],
+];
+
+export const COUNTRY_CODES: CountryCode[] = ISO_3166.map(([iso2, iso3, numeric, name]) => ({ iso2, iso3, numeric, name }));
+
+// Official, former and common names, including the spellings used by the
+// World Bank, the UN, WHO, Freedom House, RSF and Transparency International
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  AFG: ['Islamic Republic of Afghanistan', 'Islamic Emirate of Afghanistan'],
+  BHS: ['Bahamas, The', 'Commonwealth of the Bahamas'],
+  BOL: ['Bolivia (Plurinational State of)', 'Plurinational State of Bolivia'],
+  BIH: ['Bosnia-Herzegovina', 'Bosnia'],
+  BRN: ['Brunei Darussalam'],
+  CPV: ['Cape Verde', 'Republic of Cabo Verde'],
+  CIV: ['Ivory Coast', "Republic of Côte d'Ivoire"],
+  COD: [
+    'DR Congo', 'DRC', 'Congo (Kinshasa)', 'Congo-Kinshasa', 'Congo, Dem. Rep.', 'Congo, Democratic Republic of the',
+    'Democratic Republic of Congo', 'Congo (Democratic Republic of the)', 'Zaire',
+  ],
+  COG: [
+    'Republic of the Congo', 'Congo (Brazzaville)', 'Congo-Brazzaville', 'Congo, Rep.', 'Congo, Republic of the',
+    'Republic of Congo', 'Congo Republic',
+  ],
+  CZE: ['Czech Republic'],
+  EGY: ['Egypt, Arab Rep.', 'Arab Republic of Egypt'],
+  SWZ: ['Swaziland', 'Kingdom of Eswatini'],
+  FSM: ['Micronesia, Fed. Sts.', 'Micronesia (Federated States of)', 'Federated States of Micronesia'],
+  GMB: ['Gambia, The', 'Republic of the Gambia'],
+  GNB: ['Guinea Bissau'],
+  HKG: ['Hong Kong SAR, China', 'Hong Kong SAR', 'China, Hong Kong SAR', 'Hong Kong, China'],
+  MAC: ['Macau', 'Macao SAR, China', 'China, Macao SAR', 'Macao, China'],
+  IRN: ['Iran, Islamic Rep.', 'Iran (Islamic Republic of)', 'Islamic Republic of Iran'],
+  PRK: [
+    'Korea, North', "Korea, Dem. People's Rep.", "Korea (Democratic People's Republic of)",
+    "Democratic People's Republic of Korea", 'DPRK',
+  ],
+  KOR: ['Korea, South', 'Korea, Rep.', 'Korea (Republic of)', 'Republic of Korea', 'Korea'],
+  KGZ: ['Kyrgyz Republic'],
+  LAO: ['Lao PDR', "Lao People's Democratic Republic", 'Lao'],
+  LBY: ['Libyan Arab Jamahiriya', 'State of Libya'],
+  MDA: ['Moldova, Republic of', 'Republic of Moldova'],
+  MKD: [
+    'Macedonia', 'FYR Macedonia', 'Former Yugoslav Republic of Macedonia', 'Macedonia, FYR',
+    'Republic of North Macedonia',
+  ],
+  MMR: ['Burma', 'Myanmar (Burma)'],
+  NLD: ['Netherlands (Kingdom of the)', 'Kingdom of the Netherlands', 'Holland'],
+  PSE: [
+    'State of Palestine', 'Palestine, State of', 'Palestinian Territories', 'Occupied Palestinian Territory',
+    'West Bank and Gaza',
+  ],
+  RUS: ['Russian Federation'],
+  KNA: ['St. Kitts and Nevis', 'St Kitts and Nevis'],
+  LCA: ['St. Lucia', 'St Lucia'],
+  VCT: ['St. Vincent and the Grenadines', 'St Vincent and the Grenadines', 'Saint Vincent and Grenadines'],
+  MAF: ['St. Martin (French part)', 'Saint Martin'],
+  SXM: ['Sint Maarten'],
+  STP: ['Sao Tome & Principe', 'Democratic Republic of São Tomé and Príncipe'],
+  SVK: ['Slovak Republic'],
+  SYR: ['Syrian Arab Republic'],
+  TWN: ['Taiwan, China', 'Chinese Taipei', 'Taiwan (Province of China)', 'Taiwan, Province of China', 'Republic of China'],
+  TZA: ['United Republic of Tanzania', 'Tanzania, United Republic of'],
+  TLS: ['East Timor', 'Democratic Republic of Timor-Leste'],
+  TUR: ['Turkey', 'Republic of Türkiye'],
+  GBR: ['UK', 'Great Britain', 'Britain', 'United Kingdom of Great Britain and Northern Ireland'],
+  USA: ['United States of America', 'U.S.', 'U.S.A.', 'America'],
+  VEN: ['Venezuela, RB', 'Venezuela (Bolivarian Republic of)', 'Bolivarian Republic of Venezuela'],
+  VNM: ['Viet Nam'],
+  YEM: ['Yemen, Rep.', 'Republic of Yemen'],
+  VAT: ['Vatican', 'Vatican City', 'Holy See (Vatican City State)'],
+  VGB: ['Virgin Islands (British)', 'Virgin Islands, British'],
+  VIR: ['Virgin Islands (U.S.)', 'Virgin Islands, U.S.', 'US Virgin Islands'],
+  CUW: ['Curacao'],
+  ARE: ['UAE'],
+  FLK: ['Falkland Islands (Malvinas)'],
+  BES: ['Caribbean Netherlands'],
+  XKX: ['Republic of Kosovo'],
+};
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Comparison key for a country name: lowercase, without accents,
+ * punctuation or a leading "the", and with "&" spelled "and".
+ */
+export function normalizeCountryName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['\u2018\u2019`.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+const BY_ISO2 = new Map(COUNTRY_CODES.map(c => [c.iso2, c.iso3]));
+const BY_ISO3 = new Map(COUNTRY_CODES.map(c => [c.iso3, c.iso3]));
+const BY_NUMERIC = new Map(COUNTRY_CODES.filter(c => c.numeric).map(c => [c.numeric, c.iso3]));
+
+function buildNameIndex(aliases: Record<string, string>): Map<string, string> {
+  const index = new Map<string, string>();
+  const add = (name: string, iso3: string) => index.set(normalizeCountryName(name), iso3);
+
+  for (const c of COUNTRY_CODES) add(c.name, c.iso3);
+  for (const [iso3, meta] of Object.entries(COUNTRY_METADATA)) add(meta.name, iso3);
+  for (const [iso3, names] of Object.entries(COUNTRY_ALIASES)) names.forEach(name => add(name, iso3));
+  // Source-specific aliases win over the shared tables
+  for (const [name, iso3] of Object.entries(aliases)) add(name, iso3);
+
+  return index;
+}
+
+const NAME_INDEX = buildNameIndex({});
+
+function resolveWith(value: string, names: Map<string, string>, extraCodes: Set<string>): string | undefined {
+  const text = value.trim();
+
+  if (/^\d{1,3}$/.test(text)) return BY_NUMERIC.get(text.padStart(3, '0'));
+  if (/^[A-Z]{2}$/.test(text) && BY_ISO2.has(text)) return BY_ISO2.get(text);
+  if (/^[A-Z]{3}$/.test(text) && (BY_ISO3.has(text) || extraCodes.has(text))) return text;
+
+  return names.get(normalizeCountryName(text));
+}
+
+/**
+ * ISO3 code for a country code (alpha-2, alpha-3 or numeric) or name, or
+ * undefined if it isn't recognized.
+ */
+export function resolveCountry(value: string): string | undefined {
+  return resolveWith(value, NAME_INDEX, new Set());
+}
+
+/**
+ * Whether `code` is an ISO 3166 alpha-3 code (or XKX for Kosovo).
+ */
+export function isIso3Code(code: string): boolean {
+  return BY_ISO3.has(code);
+}
+
+export interface CountryResolverOptions {
+  // Extra names for this source (name -> ISO3), e.g. territories with
+  // user-assigned codes
+  aliases?: Record<string, string>;
+  // Names that are expected not to match, e.g. regional aggregates
+  ignore?: string[];
+}
+
+export interface CountryResolver {
+  // ISO3 code of the first candidate (code or name) that is recognized
+  resolve(...candidates: (string | undefined)[]): string | undefined;
+  // Names that matched no country (ignored names aren't included)
+  unmatched: Set<string>;
+  // Throw an Error listing every unmatched name
+  assertAllMatched(source: string): void;
+}
+
+export function createCountryResolver(options: CountryResolverOptions = {}): CountryResolver {
+  const aliases = options.aliases || {};
+  const names = Object.keys(aliases).length > 0 ? buildNameIndex(aliases) : NAME_INDEX;
+  const extraCodes = new Set(Object.values(aliases));
+  const ignored = new Set((options.ignore || []).map(normalizeCountryName));
+  const unmatched = new Set<string>();
+
+  return {
+    resolve(...candidates) {
+      const present = candidates.filter((c): c is string => !!c && c.trim() !== '');
+      for (const candidate of present) {
+        const iso3 = resolveWith(candidate, names, extraCodes);
+        if (iso3) return iso3;
+      }
+
+      // Report the last candidate, which is the name when a code and a
+      // name are given
+      const name = present[present.length - 1];
+      if (name && !ignored.has(normalizeCountryName(name))) unmatched.add(name);
+      return undefined;
+    },
+    unmatched,
+    assertAllMatched(source) {
+      if (unmatched.size === 0) return;
+      throw new Error(
+        `${source}: ${unmatched.size} name(s) matched no country: ${Array.from(unmatched).sort().join(', ')}\n` +
+        `Add them to COUNTRY_ALIASES in country-codes.ts, or to the importer's aliases or ignore list`
+      );
+    },
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Processed Data Loader
+ *
+ * Reads every data/processed/*.json file written by the fetchers into the
+ * RawDataPoint map used by the scoring engine (scoring.ts).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RawDataPoint, Dimension, DimensionEstimate, DIMENSION_WEIGHTS, dataKey } from './scoring';
+import { COUNTRY_METADATA } from './countries';
+
+export const PROCESSED_DIR = path.join(__dirname, 'data/processed');
+export const EXCEPTIONS_PATH = path.join(__dirname, 'data/exceptions.json');
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ProcessedDataPoint {
+  countryIso3: string;
+  sourceId: string;
+  field?: string;
+  year: number;
+  value: number;
+  estimated?: boolean;
+}
+
+interface ExceptionsFile {
+  exceptions: {
+    countryIso3: string;
+    countryName: string;
+    dimensions: Record<string, DimensionEstimate>;
+  }[];
+}
+
+export type CountryEstimates = Partial<Record<Dimension, DimensionEstimate>>;
+
+// ============================================
+// LOADING
+// ============================================
+
+/**
+ * Decide whether `candidate` should replace `existing` for the same
+ * (country, source, field) key: newer data wins, and within the same year
+ * a measured value wins over an estimated one.
+ */
+function isPreferred(candidate: RawDataPoint, existing: RawDataPoint): boolean {
+  if (candidate.year !== existing.year) {
+    return candidate.year > existing.year;
+  }
+  return !candidate.estimated && !!existing.estimated;
+}
+
+/**
+ * Load every processed data point, keeping all years of each source.
+ */
+export function loadDataPoints(processedDir: string = PROCESSED_DIR): RawDataPoint[] {
+  const points: RawDataPoint[] = [];
+
+  const files = fs.readdirSync(processedDir).filter(f => f.endsWith('.json'));
+
+  for (const file of files) {
+    const filePath = path.join(processedDir, file);
+    const data: ProcessedDataPoint[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+    for (const point of data) {
+      points.push({
+        countryIso3: point.countryIso3,
+        countryName: COUNTRY_METADATA[point.countryIso3]?.name,
+        sourceId: point.sourceId,
+        ...(point.field ? { field: point.field } : {}),
+        year: point.year,
+        value: point.value,
+        estimated: point.estimated === true,
+      });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Build the scoring input for one point in time: for each
+ * (country, source, field) the newest data point up to `year`
+ * (all years when omitted), keyed by `dataKey(country, source, field)`.
+ */
+export function buildDataSnapshot(points: RawDataPoint[], year?: number): Map<string, RawDataPoint> {
+  const rawData = new Map<string, RawDataPoint>();
+
+  for (const point of points) {
+    if (year !== undefined && point.year > year) continue;
+
+    const key = dataKey(point.countryIso3, point.sourceId, point.field);
+    const existing = rawData.get(key);
+    if (!existing || isPreferred(point, existing)) {
+      rawData.set(key, point);
+    }
+  }
+
+  return rawData;
+}
+
+/**
+ * Load the latest processed data points, keyed by `dataKey(country, source, field)`.
+ */
+export function loadProcessedData(processedDir: string = PROCESSED_DIR): Map<string, RawDataPoint> {
+  return buildDataSnapshot(loadDataPoints(processedDir));
+}
+
+/**
+ * Distinct data years present in `points`, ascending.
+ */
+export function getDataYears(points: RawDataPoint[]): number[] {
+  return Array.from(new Set(points.map(p => p.year))).sort((a, b) => a - b);
+}
+
+/**
+ * All country ISO3 codes that have at least one data point, sorted.
+ */
+export function getCountries(rawData: Map<string, RawDataPoint>): string[] {
+  return Array.from(new Set(Array.from(rawData.values()).map(p => p.countryIso3))).sort();
+}
+
+/**
+ * Load documented per-country, per-dimension estimates from
+ * data/exceptions.json, keyed by country ISO3.
+ */
+export function loadExceptions(exceptionsPath: string = EXCEPTIONS_PATH): Map<string, CountryEstimates> {
+  const estimates = new Map<string, CountryEstimates>();
+
+  if (!fs.existsSync(exceptionsPath)) {
+    return estimates;
+  }
+
+  const file: ExceptionsFile = JSON.parse(fs.readFileSync(exceptionsPath, 'utf-8'));
+
+  for (const exception of file.exceptions) {
+    const countryEstimates: CountryEstimates = {};
+
+    for (const [dimension, estimate] of Object.entries(exception.dimensions)) {
+      if (!(dimension in DIMENSION_WEIGHTS)) {
+        throw new Error(`Unknown dimension "${dimension}" for ${exception.countryIso3} in ${exceptionsPath}`);
+      }
+      countryEstimates[dimension as Dimension] = estimate;
+    }
+
+    estimates.set(exception.countryIso3, countryEstimates);
+  }
+
+  return estimates;
+}
@@ -2,57 +2,175 @@
 /**
  * Fetch All World Fairness Score Data
  *
- * This script fetches data from all sources and prepares it for calculation.
+ * This script fetches data from every source plugin in fetch/ (see
+ * fetch/registry.ts), several at a time, and prepares it for calculation.
+ *
+ * A run report (status, data mode, data points, duration and error per
+ * source) is written to data/raw/fetch-report.json. The data mode says
+ * whether a source's data came from its API, a downloaded file or the
+ * table built into its fetcher. The script exits with status 1 when a
+ * required source fails, so scheduled runs can alert on it.
  *
  * Usage:
  *   npx ts-node scripts/world-fairness-score/fetch-all.ts
+ *
+ * Options:
+ *   --concurrency  Number of sources fetched at the same time (default: 3)
+ *   --report       Write the run report to this path
+ *   --refresh      Ignore cached API responses and download everything again
+ *   --offline      Use only cached API responses
  */
 
-import { fetchAllIndicators as fetchWorldBank } from './fetch/world-bank';
-import { saveFreedomHouseData } from './fetch/freedom-house';
-import { saveRSFData } from './fetch/rsf-press-freedom';
+import * as fs from 'fs';
+import * as path from 'path';
+import { discoverSourcePlugins } from './fetch/registry';
+import { SourcePlugin, DataMode, RAW_DIR, runSourcePlugin } from './fetch/plugin';
+import { CacheMode, getCacheMode } from './fetch/http';
+import { getArgValue } from './cli';
 
-async function main() {
-  console.log('='.repeat(60));
-  console.log('World Fairness Score - Data Fetcher');
-  console.log('='.repeat(60));
-  console.log('');
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_REPORT_PATH = path.join(RAW_DIR, 'fetch-report.json');
 
-  const startTime = Date.now();
+// ============================================
+// TYPES
+// ============================================
 
-  // 1. World Bank (API)
-  console.log('\n[1/3] Fetching World Bank data (API)...');
-  try {
-    await fetchWorldBank();
-  } catch (error) {
-    console.error('World Bank fetch failed:', error);
+interface SourceRunResult {
+  id: string;
+  name: string;
+  required: boolean;
+  status: 'success' | 'failed';
+  // Where the data came from (successful runs)
+  mode?: DataMode;
+  files?: string[];
+  dataPoints: number;
+  durationMs: number;
+  error?: string;
+}
+
+interface FetchReport {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  concurrency: number;
+  cacheMode: CacheMode;
+  sources: SourceRunResult[];
+  // Required sources that failed; the run fails when this isn't empty
+  failedRequired: string[];
+}
+
+// ============================================
+// RUNNING
+// ============================================
+
+/**
+ * Run `task` for every item, at most `limit` at a time. Results keep the
+ * order of `items`.
+ */
+async function runWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
   }
 
-  // 2. Freedom House (static data)
-  console.log('\n[2/3] Processing Freedom House data...');
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+async function runSource(plugin: SourcePlugin, cacheMode: CacheMode): Promise<SourceRunResult> {
+  const start = Date.now();
+  const result = {
+    id: plugin.id,
+    name: plugin.metadata.name,
+    required: plugin.required !== false,
+  };
+
+  console.log(`\n[${plugin.id}] Fetching ${plugin.metadata.name}...`);
+
   try {
-    saveFreedomHouseData();
+    const run = await runSourcePlugin(plugin, { cacheMode });
+    return {
+      ...result,
+      status: 'success',
+      mode: run.mode,
+      ...(run.files ? { files: run.files } : {}),
+      dataPoints: run.points.length,
+      durationMs: Date.now() - start,
+    };
   } catch (error) {
-    console.error('Freedom House processing failed:', error);
+    console.error(`[${plugin.id}] ${plugin.metadata.name} fetch failed:`, error);
+    return {
+      ...result,
+      status: 'failed',
+      dataPoints: 0,
+      durationMs: Date.now() - start,
+      error: (error as Error).message || String(error),
+    };
   }
+}
 
-  // 3. RSF Press Freedom (static data)
-  console.log('\n[3/3] Processing RSF Press Freedom data...');
-  try {
-    saveRSFData();
-  } catch (error) {
-    console.error('RSF processing failed:', error);
+async function main() {
+  const args = process.argv.slice(2);
+
+  console.log('='.repeat(60));
+  console.log('World Fairness Score - Data Fetcher');
+  console.log('='.repeat(60));
+
+  const concurrency = Number(getArgValue(args, '--concurrency') || DEFAULT_CONCURRENCY);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error(`ERROR: --concurrency must be a positive whole number`);
+    process.exit(1);
   }
 
-  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  const startedAt = new Date();
+  const cacheMode = getCacheMode(args);
+  const plugins = discoverSourcePlugins();
+  console.log(`\nFetching ${plugins.length} sources, ${concurrency} at a time: ${plugins.map(p => p.id).join(', ')}`);
+
+  const sources = await runWithConcurrency(plugins, concurrency, plugin => runSource(plugin, cacheMode));
+
+  const finishedAt = new Date();
+  const report: FetchReport = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    concurrency,
+    cacheMode,
+    sources,
+    failedRequired: sources.filter(s => s.status === 'failed' && s.required).map(s => s.id),
+  };
+
+  const reportPath = getArgValue(args, '--report') || DEFAULT_REPORT_PATH;
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
   console.log('\n' + '='.repeat(60));
-  console.log(`Data fetching complete in ${elapsed}s`);
+  console.log(`Data fetching complete in ${(report.durationMs / 1000).toFixed(1)}s`);
   console.log('='.repeat(60));
 
+  for (const s of sources) {
+    const status = s.status === 'success' ? `${s.dataPoints} data points (${s.mode})` : `FAILED${s.required ? '' : ' (optional)'}: ${s.error}`;
+    console.log(`  ${s.id.padEnd(20)} ${(s.durationMs / 1000).toFixed(1).padStart(5)}s  ${status}`);
+  }
+  console.log(`\nRun report saved to ${reportPath}`);
+
+  if (report.failedRequired.length > 0) {
+    console.error(`\nERROR: Required sources failed: ${report.failedRequired.join(', ')}`);
+    process.exit(1);
+  }
+
   console.log('\nNext steps:');
   console.log('1. Review data in scripts/world-fairness-score/data/');
   console.log('2. Run calculation: npm run wfs:calculate');
   console.log('3. Generate output: npm run wfs:generate');
 }
 
-main().catch(console.error);
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
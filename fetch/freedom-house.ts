@@ -2,7 +2,12 @@
 /**
  * Freedom House Data Fetcher
  *
- * Fetches Freedom in the World data from Freedom House API/downloads
+ * Imports Freedom in the World data from Freedom House's "All Data, FIW
+ * 2013-2024" download. Save the spreadsheet (or a CSV export of it) in
+ * data/raw as All_data_FIW_*.xlsx / .csv, or pass --file <path>; every
+ * country and territory is imported for every edition in the file.
+ * Without a download, the 2024 subset below is used.
+ *
  * Data source: https://freedomhouse.org/report/freedom-world
  *
  * Note: Freedom House provides aggregate scores for:
@@ -10,13 +15,21 @@
  * - Civil Liberties (0-60)
  * - Total Score (0-100)
  * - Status: Free, Partly Free, Not Free
+ *
+ * The subcategory scores A-G in the download are imported as fields of
+ * freedom_house_political (A-C) and freedom_house_civil (D-G), see
+ * FREEDOM_HOUSE_SUBCATEGORIES.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
+import { ProcessedDataPoint } from '../data-loader';
+import { FieldConfig } from '../methodology';
+import { SourcePlugin, ImportedData, runSourcePlugin } from './plugin';
+import { FileImport, importedDataSchema, findDownloads, importSourceFiles, parseNumber, readTable } from './import';
+import { createCountryResolver, isIso3Code } from '../country-codes';
+import { getArgValue } from '../cli';
 
-const DATA_DIR = path.join(__dirname, '../data/raw');
-const PROCESSED_DIR = path.join(__dirname, '../data/processed');
+// Name of the Freedom House download, e.g. All_data_FIW_2013-2024.xlsx
+const DOWNLOAD_PATTERN = /^all_data_fiw.*\.(xlsx|csv)$/i;
 
 // Freedom House 2024 data (manually curated from their Excel download)
 // Source: https://freedomhouse.org/report/freedom-world
@@ -257,70 +270,216 @@ const FREEDOM_HOUSE_2024: Record<string, { pr: number; cl: number; total: number
   STP: { pr: 34, cl: 49, total: 83, status: 'Free' },
 };
 
-function saveFreedomHouseData() {
-  console.log('='.repeat(60));
-  console.log('Freedom House Data');
-  console.log('='.repeat(60));
+// Territories Freedom House rates that have no ISO 3166 code get
+// user-assigned X codes, like Kosovo (XKX); the calculator skips codes it
+// has no metadata for. Other names are resolved by country-codes.ts.
+const FREEDOM_HOUSE_TERRITORIES: Record<string, string> = {
+  'Abkhazia': 'XAB',
+  'Crimea': 'XCR',
+  'Eastern Donbas': 'XED',
+  'Gaza Strip': 'XGZ',
+  'Indian Kashmir': 'XIK',
+  'Nagorno-Karabakh': 'XNK',
+  'Northern Cyprus': 'XNC',
+  'Pakistani Kashmir': 'XPK',
+  'Somaliland': 'XSL',
+  'South Ossetia': 'XSO',
+  'Tibet': 'XTB',
+  'Transnistria': 'XTN',
+  'West Bank': 'XWB',
+};
+
+// Status abbreviations used in the download
+const STATUS_NAMES: Record<string, string> = {
+  F: 'Free',
+  PF: 'Partly Free',
+  NF: 'Not Free',
+};
+
+// Subcategory columns of the download -> field of the aggregate score they
+// make up, with the highest possible score
+const FREEDOM_HOUSE_SUBCATEGORIES: { column: string; sourceId: string; field: string; max: number }[] = [
+  { column: 'A', sourceId: 'freedom_house_political', field: 'electoral_process', max: 12 },
+  { column: 'B', sourceId: 'freedom_house_political', field: 'political_pluralism', max: 16 },
+  { column: 'C', sourceId: 'freedom_house_political', field: 'functioning_of_government', max: 12 },
+  { column: 'D', sourceId: 'freedom_house_civil', field: 'freedom_of_expression', max: 16 },
+  { column: 'E', sourceId: 'freedom_house_civil', field: 'associational_rights', max: 12 },
+  { column: 'F', sourceId: 'freedom_house_civil', field: 'rule_of_law', max: 16 },
+  { column: 'G', sourceId: 'freedom_house_civil', field: 'personal_autonomy', max: 16 },
+];
+
+interface FreedomHouseRecord {
+  iso3: string;
+  // Name and country/territory flag as given in the download
+  country?: string;
+  territory?: boolean;
+  // Report edition (the 2024 edition covers events of 2023)
+  year: number;
+  status: string;
+  pr: number;
+  cl: number;
+  total: number;
+  // Subcategory scores keyed by field (downloads only)
+  subcategories?: Record<string, number>;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Parse the "All Data" spreadsheet (or its CSV export) into one record per
+ * country/territory and edition.
+ */
+function parseFreedomHouseDownload(filePath: string): FreedomHouseRecord[] {
+  const rows = readTable(filePath, ['Country/Territory', 'Edition', 'PR', 'CL', 'Total'], /^FIW/i);
+  const countries = createCountryResolver({ aliases: FREEDOM_HOUSE_TERRITORIES });
+  const records: FreedomHouseRecord[] = [];
+
+  for (const row of rows) {
+    const country = row['country/territory'];
+    const iso3 = countries.resolve(country);
+    const [year, pr, cl, total] = [row['edition'], row['pr'], row['cl'], row['total']].map(cell => parseNumber(cell));
+    if (!iso3 || ![year, pr, cl, total].every(Number.isFinite)) continue;
+
+    const subcategories: Record<string, number> = {};
+    for (const { column, field } of FREEDOM_HOUSE_SUBCATEGORIES) {
+      const score = parseNumber(row[column.toLowerCase()]);
+      if (Number.isFinite(score)) subcategories[field] = score;
+    }
+
+    const status = row['status'] || '';
+    records.push({
+      iso3,
+      country,
+      territory: (row['c/t'] || '').toLowerCase() === 't',
+      year,
+      status: STATUS_NAMES[status] || status,
+      pr,
+      cl,
+      total,
+      ...(Object.keys(subcategories).length > 0 ? { subcategories } : {}),
+    });
+  }
+
+  countries.assertAllMatched(`Freedom House (${filePath})`);
+  return records;
+}
+
+const FREEDOM_HOUSE_IMPORT: FileImport<FreedomHouseRecord> = {
+  label: 'Freedom House',
+  pattern: DOWNLOAD_PATTERN,
+  parse: parseFreedomHouseDownload,
+  key: record => `${record.iso3}:${record.year}`,
+  embedded: () => Object.entries(FREEDOM_HOUSE_2024).map(([iso3, scores]) => ({ iso3, year: 2024, ...scores })),
+};
+
+// Input range of each subcategory field of `sourceId`
+function subcategoryRanges(sourceId: string): Record<string, FieldConfig> {
+  return Object.fromEntries(FREEDOM_HOUSE_SUBCATEGORIES
+    .filter(s => s.sourceId === sourceId)
+    .map(s => [s.field, { inputRange: [0, s.max] as [number, number] }]));
+}
+
+// Transform to our format
+function transformFreedomHouseData(data: ImportedData<FreedomHouseRecord>): ProcessedDataPoint[] {
+  const processed: ProcessedDataPoint[] = [];
+
+  for (const record of data.records) {
+    // Territories without an ISO 3166 code (the user-assigned X codes in
+    // FREEDOM_HOUSE_TERRITORIES) are kept in the raw data only; ISO-coded
+    // territories such as Hong Kong are scored
+    if (!isIso3Code(record.iso3)) continue;
 
-  // Save raw data
-  const rawPath = path.join(DATA_DIR, 'freedom-house-2024.json');
-  fs.mkdirSync(DATA_DIR, { recursive: true });
-  fs.writeFileSync(rawPath, JSON.stringify(FREEDOM_HOUSE_2024, null, 2));
-  console.log(`Saved raw data: ${Object.keys(FREEDOM_HOUSE_2024).length} countries`);
-
-  // Transform to our format
-  const processed: Array<{
-    countryIso3: string;
-    sourceId: string;
-    year: number;
-    value: number;
-  }> = [];
-
-  for (const [iso3, data] of Object.entries(FREEDOM_HOUSE_2024)) {
     // Political Rights score (0-40)
     processed.push({
-      countryIso3: iso3,
+      countryIso3: record.iso3,
       sourceId: 'freedom_house_political',
-      year: 2024,
-      value: data.pr,
+      year: record.year,
+      value: record.pr,
     });
 
     // Civil Liberties score (0-60)
     processed.push({
-      countryIso3: iso3,
+      countryIso3: record.iso3,
       sourceId: 'freedom_house_civil',
-      year: 2024,
-      value: data.cl,
+      year: record.year,
+      value: record.cl,
     });
 
     // Total score (0-100)
     processed.push({
-      countryIso3: iso3,
+      countryIso3: record.iso3,
       sourceId: 'freedom_house_total',
-      year: 2024,
-      value: data.total,
+      year: record.year,
+      value: record.total,
     });
-  }
 
-  // Save processed data
-  const processedPath = path.join(PROCESSED_DIR, 'freedom-house.json');
-  fs.mkdirSync(PROCESSED_DIR, { recursive: true });
-  fs.writeFileSync(processedPath, JSON.stringify(processed, null, 2));
-  console.log(`Processed ${processed.length} data points`);
+    // Subcategory scores A-G
+    for (const { sourceId, field } of FREEDOM_HOUSE_SUBCATEGORIES) {
+      const score = record.subcategories?.[field];
+      if (score === undefined) continue;
+      processed.push({
+        countryIso3: record.iso3,
+        sourceId,
+        field,
+        year: record.year,
+        value: score,
+      });
+    }
+  }
 
   return processed;
 }
 
+const plugin: SourcePlugin<ImportedData<FreedomHouseRecord>> = {
+  id: 'freedom-house',
+  rawFile: 'freedom-house.json',
+  metadata: {
+    name: 'Freedom House - Freedom in the World',
+    url: 'https://freedomhouse.org/report/freedom-world',
+    license: 'CC BY 4.0',
+    year: 2024,
+  },
+  normalization: {
+    freedom_house_political: { inputRange: [0, 40], invert: false, fields: subcategoryRanges('freedom_house_political') },
+    freedom_house_civil: { inputRange: [0, 60], invert: false, fields: subcategoryRanges('freedom_house_civil') },
+    freedom_house_total: { inputRange: [0, 100], invert: false },
+  },
+  fetch: options => importSourceFiles(FREEDOM_HOUSE_IMPORT, options),
+  transform: transformFreedomHouseData,
+  rawSchema: importedDataSchema({
+    country: { type: 'string' },
+    territory: { type: 'boolean' },
+    status: { type: 'string' },
+    pr: { type: 'number' },
+    cl: { type: 'number' },
+    total: { type: 'number' },
+    subcategories: { type: 'record', values: { type: 'number' } },
+  }, ['country', 'territory', 'subcategories']),
+};
+
 async function main() {
-  console.log('\nNote: For complete data, download from:');
-  console.log('https://freedomhouse.org/report/freedom-world');
+  console.log('='.repeat(60));
+  console.log('Freedom House Data');
+  console.log('='.repeat(60));
+
+  const file = getArgValue(process.argv.slice(2), '--file');
+  if (!file && findDownloads(DOWNLOAD_PATTERN).length === 0) {
+    console.log('\nNote: For complete data, download "All Data, FIW 2013-2024" from:');
+    console.log('https://freedomhouse.org/report/freedom-world');
+    console.log('and save it in data/raw');
+  }
   console.log('');
 
-  saveFreedomHouseData();
+  await runSourcePlugin(plugin, { file });
 }
 
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
 }
 
-export { FREEDOM_HOUSE_2024, saveFreedomHouseData };
+export { FREEDOM_HOUSE_2024, FREEDOM_HOUSE_SUBCATEGORIES, FreedomHouseRecord, parseFreedomHouseDownload, transformFreedomHouseData, plugin };
@@ -0,0 +1,168 @@
+/**
+ * HTTP helpers for the data fetchers
+ *
+ * - Retries 429 and 5xx responses (and network errors) with exponential
+ *   backoff, honouring Retry-After when the server sends it
+ * - Caches response bodies on disk under data/raw/cache so re-runs work
+ *   offline. Bodies are stored by the SHA-256 of their content
+ *   (objects/<hash>.json) and index.json maps each request URL to the
+ *   body it last returned.
+ *
+ * Cache modes:
+ *   default   Use the cached response if there is one younger than
+ *             `cacheMaxAgeHours` (default 12, so a nightly run always
+ *             downloads again), otherwise fetch
+ *   refresh   Always fetch, then update the cache (--refresh)
+ *   offline   Only use the cache; fail if a response isn't cached (--offline)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+export const CACHE_DIR = path.join(__dirname, '../data/raw/cache');
+
+export type CacheMode = 'default' | 'refresh' | 'offline';
+
+export interface FetchOptions {
+  cacheMode?: CacheMode;
+  cacheDir?: string;
+  // Age after which a cached response is fetched again in default mode
+  cacheMaxAgeHours?: number;
+  maxRetries?: number;
+  // Delay before the first retry; doubles on each further attempt
+  retryDelayMs?: number;
+}
+
+interface CacheIndex {
+  [url: string]: { hash: string; fetchedAt: string };
+}
+
+const DEFAULT_CACHE_MAX_AGE_HOURS = 12;
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+// ============================================
+// CACHE
+// ============================================
+
+function readCacheIndex(cacheDir: string): CacheIndex {
+  const indexPath = path.join(cacheDir, 'index.json');
+  return fs.existsSync(indexPath) ? JSON.parse(fs.readFileSync(indexPath, 'utf-8')) : {};
+}
+
+/**
+ * Cached body of `url`, or null if it isn't cached or was fetched more
+ * than `maxAgeHours` ago.
+ */
+function readCached(url: string, cacheDir: string, maxAgeHours: number = Infinity): string | null {
+  const entry = readCacheIndex(cacheDir)[url];
+  if (!entry) return null;
+  if (Date.now() - Date.parse(entry.fetchedAt) > maxAgeHours * 3600 * 1000) return null;
+
+  const objectPath = path.join(cacheDir, 'objects', `${entry.hash}.json`);
+  return fs.existsSync(objectPath) ? fs.readFileSync(objectPath, 'utf-8') : null;
+}
+
+function writeCached(url: string, body: string, cacheDir: string) {
+  const hash = crypto.createHash('sha256').update(body).digest('hex');
+  const objectsDir = path.join(cacheDir, 'objects');
+
+  fs.mkdirSync(objectsDir, { recursive: true });
+  fs.writeFileSync(path.join(objectsDir, `${hash}.json`), body);
+
+  const index = readCacheIndex(cacheDir);
+  index[url] = { hash, fetchedAt: new Date().toISOString() };
+  fs.writeFileSync(path.join(cacheDir, 'index.json'), JSON.stringify(index, null, 2));
+}
+
+/**
+ * Cache mode selected by the `--refresh` and `--offline` flags.
+ */
+export function getCacheMode(args: string[]): CacheMode {
+  if (args.includes('--offline')) return 'offline';
+  if (args.includes('--refresh')) return 'refresh';
+  return 'default';
+}
+
+// ============================================
+// FETCHING
+// ============================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Fetch `url`, retrying 429/5xx responses and network errors with
+ * exponential backoff. Returns the response body.
+ */
+export async function fetchWithRetry(url: string, options: FetchOptions = {}): Promise<string> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    let retryAfterMs: number | null = null;
+    let failure = '';
+
+    let response: Response | null = null;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      // Network error
+      failure = (error as Error).message;
+    }
+
+    if (response) {
+      if (response.ok) {
+        return await response.text();
+      }
+
+      failure = `${response.status} ${response.statusText}`;
+      if (!isRetryable(response.status)) {
+        throw new Error(`Failed to fetch ${url}: ${failure}`);
+      }
+
+      const retryAfter = Number(response.headers.get('retry-after'));
+      if (retryAfter > 0) retryAfterMs = retryAfter * 1000;
+    }
+
+    if (attempt >= maxRetries) {
+      throw new Error(`Failed to fetch ${url} after ${attempt + 1} attempts: ${failure}`);
+    }
+
+    const delay = retryAfterMs ?? retryDelayMs * 2 ** attempt;
+    console.warn(`  ${failure}, retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 2}/${maxRetries + 1})`);
+    await sleep(delay);
+  }
+}
+
+/**
+ * Fetch and parse a JSON document through the on-disk cache.
+ */
+export async function fetchJson<T = unknown>(url: string, options: FetchOptions = {}): Promise<T> {
+  const cacheMode = options.cacheMode || 'default';
+  const cacheDir = options.cacheDir || CACHE_DIR;
+
+  if (cacheMode !== 'refresh') {
+    // Offline runs use whatever is cached, however old
+    const maxAgeHours = cacheMode === 'offline' ? Infinity : options.cacheMaxAgeHours ?? DEFAULT_CACHE_MAX_AGE_HOURS;
+    const cached = readCached(url, cacheDir, maxAgeHours);
+    if (cached !== null) return JSON.parse(cached);
+
+    if (cacheMode === 'offline') {
+      throw new Error(`Not in cache (offline mode): ${url}`);
+    }
+  }
+
+  const body = await fetchWithRetry(url, options);
+  const data = JSON.parse(body);
+
+  // Only cache responses that parse, so a bad body is refetched next time
+  writeCached(url, body, cacheDir);
+  return data;
+}
@@ -0,0 +1,169 @@
+/**
+ * File Import Helpers
+ *
+ * Sources without an API publish their data as downloadable files. Their
+ * fetchers import the download (CSV or Excel; WHO UHC also reads the GHO
+ * JSON response) from data/raw when there is one, and fall back to the
+ * table built into the fetcher when there isn't. The raw data
+ * (`ImportedData`, see plugin.ts) records which of the two was used, and
+ * fetch-all.ts copies it into its run report. Files named like a source's
+ * download but in a format it doesn't read are skipped with a warning.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RAW_DIR, ImportedData, SourceFetchOptions, isImportedData } from './plugin';
+import { SheetSelector, readSpreadsheet, findHeaderRow } from './spreadsheet';
+import { Schema, ISO3_SCHEMA, YEAR_SCHEMA } from '../validation';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface FileImport<R> {
+  // Source name for log messages
+  label: string;
+  // Matches the names of downloads in data/raw
+  pattern: RegExp;
+  parse(filePath: string): R[];
+  // Identifies a record (e.g. country and year); when downloads overlap,
+  // the file that sorts last wins
+  key(record: R): string;
+  // Built-in table used without a download; sources without one fail
+  embedded?(): R[];
+}
+
+// A spreadsheet row keyed by lowercase column name
+export type TableRow = Record<string, string>;
+
+// Extensions of the download formats the fetchers read
+const DOWNLOAD_EXTENSIONS = ['.csv', '.xlsx', '.json'];
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Raw data schema (see validation.ts) for imported records with the given
+ * properties besides `iso3` and `year`.
+ */
+export function importedDataSchema(properties: Record<string, Schema>, optional: string[] = []): Schema {
+  return {
+    type: 'object',
+    properties: {
+      mode: { type: 'string', pattern: /^(file|embedded)$/ },
+      files: { type: 'array', items: { type: 'string' } },
+      records: {
+        type: 'array',
+        items: { type: 'object', properties: { iso3: ISO3_SCHEMA, year: YEAR_SCHEMA, ...properties }, optional },
+      },
+    },
+    optional: ['files'],
+  };
+}
+
+// ============================================
+// IMPORTING
+// ============================================
+
+/**
+ * Downloads in `dir` whose names match `pattern`, sorted by name.
+ */
+export function findDownloads(pattern: RegExp, dir: string = RAW_DIR): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(f => pattern.test(f))
+    .sort()
+    .map(f => path.join(dir, f));
+}
+
+// Whether `filePath` is a fetcher's own raw data file (see plugin.ts)
+function isRawDataFile(filePath: string): boolean {
+  if (path.extname(filePath).toLowerCase() !== '.json') return false;
+  try {
+    return isImportedData(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Files in `dir` named like a download matching `pattern` but in a format
+ * it doesn't accept (e.g. rsf-2024.json or cpi-2024.xls), sorted by name.
+ * The fetchers' own raw data files are left out.
+ */
+export function findSkippedDownloads(pattern: RegExp, dir: string = RAW_DIR): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(f => !pattern.test(f))
+    .filter(f => DOWNLOAD_EXTENSIONS.some(extension => pattern.test(path.parse(f).name + extension)))
+    .sort()
+    .map(f => path.join(dir, f))
+    .filter(f => fs.statSync(f).isFile() && !isRawDataFile(f));
+}
+
+/**
+ * Import `options.file`, or every matching download in data/raw (e.g. one
+ * file per year), falling back to the built-in table when there is none.
+ */
+export async function importSourceFiles<R>(source: FileImport<R>, options: SourceFetchOptions): Promise<ImportedData<R>> {
+  const files = options.file ? [options.file] : findDownloads(source.pattern);
+  if (!options.file) {
+    for (const skipped of findSkippedDownloads(source.pattern)) {
+      console.warn(`WARNING: Skipping ${skipped}: ${source.label} downloads must match ${source.pattern}`);
+    }
+  }
+
+  if (files.length === 0) {
+    if (!source.embedded) {
+      throw new Error(`No ${source.label} download found in data/raw (expected a file matching ${source.pattern})`);
+    }
+    console.log(`No ${source.label} download found in data/raw, using the built-in table`);
+    return { mode: 'embedded', records: source.embedded() };
+  }
+
+  const byKey = new Map<string, R>();
+  for (const file of files) {
+    console.log(`Importing ${file}`);
+    for (const record of source.parse(file)) {
+      byKey.set(source.key(record), record);
+    }
+  }
+
+  const records = Array.from(byKey.values());
+  console.log(`Read ${records.length} ${source.label} records from ${files.length} file(s)`);
+
+  return { mode: 'file', files: files.map(f => path.basename(f)), records };
+}
+
+/**
+ * Read the table under the first row containing every one of `columns`
+ * (a list matches any of its names). Rows are keyed by lowercase column
+ * name.
+ */
+export function readTable(filePath: string, columns: (string | string[])[], sheet?: SheetSelector): TableRow[] {
+  const rows = readSpreadsheet(filePath, sheet);
+
+  const header = findHeaderRow(rows, columns);
+  if (header < 0) {
+    const names = columns.map(c => (Array.isArray(c) ? c.join(' or ') : c));
+    throw new Error(`No header row with columns ${names.join(', ')} in ${filePath}`);
+  }
+
+  const names = rows[header].map(cell => cell.trim().toLowerCase());
+
+  return rows.slice(header + 1)
+    .filter(row => row.some(cell => cell.trim() !== ''))
+    .map(row => Object.fromEntries(names.map((name, i) => [name, (row[i] || '').trim()])));
+}
+
+/**
+ * Parse a numeric cell. Returns NaN for empty and placeholder cells
+ * ("-", "n/a"). Commas are thousands separators, or with `decimalComma`
+ * the decimal separator ("12,5" reads as 12.5).
+ */
+export function parseNumber(cell: string | undefined, decimalComma: boolean = false): number {
+  const text = (cell || '').trim();
+  if (text === '') return NaN;
+  return Number(decimalComma ? text.replace(',', '.') : text.replace(/,/g, ''));
+}
@@ -9,13 +9,21 @@
  * 1 = Best (sporadic violations), 5+ = Worst (no guarantee of rights)
  *
  * We invert and normalize to 0-100 scale where higher = better.
+ *
+ * Imports a ratings table saved in data/raw as ituc*.csv / .xlsx (or
+ * --file <path>) with a Country or ISO3 column and either Year and Rating
+ * columns or one rating column per year ("2024", "2023", ...). Ratings
+ * are 1-5 or "5+". Without a download, the 2024 table below is used.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
+import { ProcessedDataPoint } from '../data-loader';
+import { SourcePlugin, ImportedData, runSourcePlugin } from './plugin';
+import { FileImport, importedDataSchema, importSourceFiles, parseNumber, readTable } from './import';
+import { createCountryResolver } from '../country-codes';
+import { getArgValue } from '../cli';
 
-const DATA_DIR = path.join(__dirname, '../data/raw');
-const PROCESSED_DIR = path.join(__dirname, '../data/processed');
+// ITUC ratings tables saved in data/raw
+const DOWNLOAD_PATTERN = /^ituc.*\.(csv|xlsx)$/i;
 
 // ITUC GRI 2024 ratings
 // Source: https://www.ituc-csi.org/global-rights-index
@@ -173,6 +181,74 @@ const ITUC_GRI_2024: Record<string, { rating: number; category: string }> = {
   PSE: { rating: 5.5, category: 'No guarantee - breakdown of rule of law' },
 };
 
+// Category of each rating (5.5 stands for 5+)
+const GRI_CATEGORIES: Record<number, string> = {
+  1: 'Sporadic violations',
+  2: 'Repeated violations',
+  3: 'Regular violations',
+  4: 'Systematic violations',
+  5: 'No guarantee of rights',
+  5.5: 'No guarantee - breakdown of rule of law',
+};
+
+// Processed data point, keeping the original rating and its category
+type ITUCDataPoint = ProcessedDataPoint & { originalRating: number; category: string };
+
+interface ITUCRecord {
+  iso3: string;
+  year: number;
+  rating: number;
+  category: string;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+// Rating as a number, with "5+" as 5.5; NaN if not a valid rating
+function parseRating(cell: string | undefined): number {
+  const text = (cell || '').trim();
+  const rating = text === '5+' ? 5.5 : parseNumber(text);
+  return GRI_CATEGORIES[rating] ? rating : NaN;
+}
+
+function parseITUCDownload(filePath: string): ITUCRecord[] {
+  const rows = readTable(filePath, [['Country', 'ISO3']]);
+  const countries = createCountryResolver();
+  const records: ITUCRecord[] = [];
+
+  const yearColumns = Object.keys(rows[0] || {}).filter(name => /^\d{4}$/.test(name));
+  const isLong = 'year' in (rows[0] || {}) && 'rating' in (rows[0] || {});
+  if (!isLong && yearColumns.length === 0) {
+    throw new Error(`No "Year" and "Rating" columns or per-year rating columns in ${filePath}`);
+  }
+
+  for (const row of rows) {
+    const iso3 = countries.resolve(row['iso3'], row['country']);
+    if (!iso3) continue;
+
+    const ratings = isLong
+      ? [{ year: parseNumber(row['year']), rating: parseRating(row['rating']) }]
+      : yearColumns.map(name => ({ year: Number(name), rating: parseRating(row[name]) }));
+
+    for (const { year, rating } of ratings) {
+      if (!Number.isFinite(year) || !Number.isFinite(rating)) continue;
+      records.push({ iso3, year, rating, category: GRI_CATEGORIES[rating] });
+    }
+  }
+
+  countries.assertAllMatched(`ITUC (${filePath})`);
+  return records;
+}
+
+const ITUC_IMPORT: FileImport<ITUCRecord> = {
+  label: 'ITUC',
+  pattern: DOWNLOAD_PATTERN,
+  parse: parseITUCDownload,
+  key: record => `${record.iso3}:${record.year}`,
+  embedded: () => Object.entries(ITUC_GRI_2024).map(([iso3, entry]) => ({ iso3, year: 2024, ...entry })),
+};
+
 /**
  * Convert ITUC rating (1-5.5) to 0-100 scale where higher = better
  * 1 -> 100, 5.5 -> 0
@@ -183,49 +259,65 @@ function normalizeGRI(rating: number): number {
   return Math.round(Math.max(0, Math.min(100, normalized)));
 }
 
-function saveITUCData() {
-  console.log('='.repeat(60));
-  console.log('ITUC Global Rights Index 2024');
-  console.log('='.repeat(60));
+// Transform to our format - normalize to 0-100 scale
+function transformITUCData(data: ImportedData<ITUCRecord>): ITUCDataPoint[] {
+  const processed: ITUCDataPoint[] = [];
 
-  // Save raw data
-  const rawPath = path.join(DATA_DIR, 'ituc-gri-2024.json');
-  fs.mkdirSync(DATA_DIR, { recursive: true });
-  fs.writeFileSync(rawPath, JSON.stringify(ITUC_GRI_2024, null, 2));
-  console.log(`Saved raw data: ${Object.keys(ITUC_GRI_2024).length} countries`);
-
-  // Process data - normalize to 0-100 scale
-  const processed: Array<{
-    countryIso3: string;
-    sourceId: string;
-    year: number;
-    value: number;
-    originalRating: number;
-    category: string;
-  }> = [];
-
-  for (const [iso3, data] of Object.entries(ITUC_GRI_2024)) {
+  for (const record of data.records) {
     processed.push({
-      countryIso3: iso3,
+      countryIso3: record.iso3,
       sourceId: 'ituc_gri',
-      year: 2024,
-      value: normalizeGRI(data.rating),
-      originalRating: data.rating,
-      category: data.category,
+      year: record.year,
+      value: normalizeGRI(record.rating),
+      originalRating: record.rating,
+      category: record.category,
     });
   }
 
-  // Save processed data
-  const processedPath = path.join(PROCESSED_DIR, 'ituc-gri.json');
-  fs.mkdirSync(PROCESSED_DIR, { recursive: true });
-  fs.writeFileSync(processedPath, JSON.stringify(processed, null, 2));
-  console.log(`Processed ${processed.length} data points`);
+  return processed;
+}
+
+const plugin: SourcePlugin<ImportedData<ITUCRecord>> = {
+  id: 'ituc-gri',
+  rawFile: 'ituc-gri.json',
+  metadata: {
+    name: 'ITUC Global Rights Index',
+    url: 'https://www.ituc-csi.org/global-rights-index',
+    license: 'Public',
+    year: 2024,
+  },
+  normalization: {
+    // Already normalized to 0-100 by transformITUCData
+    ituc_gri: { inputRange: [0, 100], invert: false },
+  },
+  fetch: options => importSourceFiles(ITUC_IMPORT, options),
+  transform: transformITUCData,
+  rawSchema: importedDataSchema({ rating: { type: 'number' }, category: { type: 'string' } }),
+};
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('ITUC Global Rights Index');
+  console.log('='.repeat(60));
+
+  console.log('\nSource: International Trade Union Confederation');
+  console.log('Index: Global Rights Index');
+  console.log('Original Scale: 1 (best) to 5+ (worst)');
+  console.log('Normalized Scale: 0-100 (higher = better)');
+  console.log('License: Public\n');
+
+  const run = await runSourcePlugin(plugin, { file: getArgValue(process.argv.slice(2), '--file') });
+
+  // transformITUCData keeps the original rating and category
+  const allPoints = run.points as ITUCDataPoint[];
+  const latestYear = Math.max(...allPoints.map(p => p.year));
+  const points = allPoints.filter(p => p.year === latestYear);
 
   // Print summary by category
-  console.log('\nCountries by rating category:');
+  console.log(`\nCountries by rating category (${latestYear}):`);
   const categories = new Map<string, number>();
-  for (const data of Object.values(ITUC_GRI_2024)) {
-    categories.set(data.category, (categories.get(data.category) || 0) + 1);
+  for (const point of points) {
+    categories.set(point.category, (categories.get(point.category) || 0) + 1);
   }
   for (const [category, count] of categories) {
     console.log(`  ${category}: ${count} countries`);
@@ -233,32 +325,23 @@ function saveITUCData() {
 
   // Print best and worst
   console.log('\nBest workers\' rights (Rating 1):');
-  const rating1 = Object.entries(ITUC_GRI_2024)
-    .filter(([_, d]) => d.rating === 1)
-    .map(([iso]) => iso);
+  const rating1 = points
+    .filter(p => p.originalRating === 1)
+    .map(p => p.countryIso3);
   console.log(`  ${rating1.join(', ')}`);
 
   console.log('\nWorst workers\' rights (Rating 5+):');
-  const rating5plus = Object.entries(ITUC_GRI_2024)
-    .filter(([_, d]) => d.rating >= 5)
-    .map(([iso]) => iso);
+  const rating5plus = points
+    .filter(p => p.originalRating >= 5)
+    .map(p => p.countryIso3);
   console.log(`  ${rating5plus.join(', ')}`);
-
-  return processed;
-}
-
-async function main() {
-  console.log('\nSource: International Trade Union Confederation');
-  console.log('Index: Global Rights Index 2024');
-  console.log('Original Scale: 1 (best) to 5+ (worst)');
-  console.log('Normalized Scale: 0-100 (higher = better)');
-  console.log('License: Public\n');
-
-  saveITUCData();
 }
 
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
 }
 
-export { ITUC_GRI_2024, saveITUCData, normalizeGRI };
+export { ITUC_GRI_2024, ITUCRecord, parseITUCDownload, transformITUCData, normalizeGRI, plugin };
@@ -0,0 +1,175 @@
+#!/usr/bin/env npx tsx
+/**
+ * OECD Affordable Housing Database
+ *
+ * Source: OECD Affordable Housing Database (AHD)
+ * URL: https://www.oecd.org/en/data/datasets/oecd-affordable-housing-database.html
+ *
+ * Imports two AHD indicators, for OECD and EU countries only:
+ * - HC1.2  Housing cost overburden: share of the population in households
+ *          spending more than 40% of disposable income on housing costs
+ *          (%, higher = worse)
+ * - HC3.1  Homeless population as a share of the total population
+ *          (%, higher = worse)
+ *
+ * There is no API and no built-in table. Save one table per indicator in
+ * data/raw, named after the indicator (see OECD_HOUSING_FILES), or pass
+ * --file <path> with such a name. A table needs a country column
+ * (REF_AREA, ISO3 or Country), a year column (TIME_PERIOD or Year) and a
+ * value column (OBS_VALUE or Value), with one value per country and year,
+ * i.e. an OECD Data Explorer CSV export filtered to the total population.
+ *
+ * Homelessness counts use national definitions and are often only
+ * collected every few years, so they compare less well across countries
+ * than the overburden rate.
+ *
+ * License: OECD Terms and Conditions (free reuse with attribution)
+ */
+
+import * as path from 'path';
+import { ProcessedDataPoint } from '../data-loader';
+import { SourcePlugin, ImportedData, runSourcePlugin } from './plugin';
+import { FileImport, findDownloads, importedDataSchema, importSourceFiles, parseNumber, readTable } from './import';
+import { createCountryResolver } from '../country-codes';
+import { getArgValue } from '../cli';
+
+type HousingIndicator = 'overburden' | 'homelessness';
+
+// Start of the file name of each indicator's table -> indicator
+const OECD_HOUSING_FILES: Record<string, HousingIndicator> = {
+  'oecd-overburden': 'overburden',
+  'oecd-homelessness': 'homelessness',
+};
+
+// OECD housing tables saved in data/raw, e.g. oecd-overburden-2024.csv
+const DOWNLOAD_PATTERN = /^oecd-(overburden|homelessness).*\.(csv|xlsx)$/i;
+
+// Indicator -> source ID it is imported as
+const INDICATOR_SOURCES: Record<HousingIndicator, string> = {
+  overburden: 'oecd_housing_overburden',
+  homelessness: 'oecd_homelessness',
+};
+
+// OECD and EU aggregates in Data Explorer exports
+const OECD_AGGREGATES = ['OECD', 'OECD average', 'EU27', 'European Union (27 countries)', 'EA20', 'Euro area (20 countries)'];
+
+interface HousingRecord {
+  iso3: string;
+  indicator: HousingIndicator;
+  year: number;
+  value: number;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+// Indicator of a table, from its file name
+function getIndicator(filePath: string): HousingIndicator {
+  const name = path.basename(filePath).toLowerCase();
+  const prefix = Object.keys(OECD_HOUSING_FILES).find(p => name.startsWith(p));
+  if (!prefix) {
+    throw new Error(`Can't tell the indicator of ${filePath}: name it ${Object.keys(OECD_HOUSING_FILES).map(p => `${p}*`).join(' or ')}`);
+  }
+  return OECD_HOUSING_FILES[prefix];
+}
+
+/**
+ * Parse one indicator table. Several different values for a country and
+ * year mean the export wasn't filtered to a single breakdown, which is an
+ * error rather than a guess at the right one.
+ */
+function parseHousingDownload(filePath: string): HousingRecord[] {
+  const indicator = getIndicator(filePath);
+  const rows = readTable(filePath, [['REF_AREA', 'ISO3', 'Country'], ['TIME_PERIOD', 'Year'], ['OBS_VALUE', 'Value']]);
+  const countries = createCountryResolver({ ignore: OECD_AGGREGATES });
+  const byYear = new Map<string, HousingRecord>();
+
+  for (const row of rows) {
+    const iso3 = countries.resolve(row['ref_area'], row['iso3'], row['reference area'] || row['country']);
+    const year = parseNumber(row['time_period'] || row['year']);
+    const value = parseNumber(row['obs_value'] || row['value']);
+    if (!iso3 || !Number.isFinite(year) || !Number.isFinite(value)) continue;
+
+    const key = `${iso3}:${year}`;
+    const previous = byYear.get(key);
+    if (previous && previous.value !== value) {
+      throw new Error(`Several ${indicator} values for ${iso3} ${year} in ${filePath}; export the total population only`);
+    }
+    byYear.set(key, { iso3, indicator, year, value });
+  }
+
+  countries.assertAllMatched(`OECD housing (${filePath})`);
+  return Array.from(byYear.values());
+}
+
+const HOUSING_IMPORT: FileImport<HousingRecord> = {
+  label: 'OECD housing',
+  pattern: DOWNLOAD_PATTERN,
+  parse: parseHousingDownload,
+  key: record => `${record.indicator}:${record.iso3}:${record.year}`,
+};
+
+// Transform to our format
+function transformHousingData(data: ImportedData<HousingRecord>): ProcessedDataPoint[] {
+  return data.records.map(record => ({
+    countryIso3: record.iso3,
+    sourceId: INDICATOR_SOURCES[record.indicator],
+    year: record.year,
+    value: record.value,
+  }));
+}
+
+const plugin: SourcePlugin<ImportedData<HousingRecord>> = {
+  id: 'oecd-housing',
+  rawFile: 'oecd-housing.json',
+  // Needs a manual download
+  required: false,
+  metadata: {
+    name: 'OECD Affordable Housing Database',
+    url: 'https://www.oecd.org/en/data/datasets/oecd-affordable-housing-database.html',
+    license: 'OECD Terms and Conditions',
+    year: 2023,
+  },
+  normalization: {
+    oecd_housing_overburden: { inputRange: [0, 100], invert: true },
+    oecd_homelessness: { inputRange: [0, 1], invert: true },
+  },
+  fetch: options => importSourceFiles(HOUSING_IMPORT, options),
+  transform: transformHousingData,
+  rawSchema: importedDataSchema({
+    indicator: { type: 'string', pattern: /^(overburden|homelessness)$/ },
+    value: { type: 'number' },
+  }),
+};
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('OECD Affordable Housing Database');
+  console.log('='.repeat(60));
+
+  const file = getArgValue(process.argv.slice(2), '--file');
+  if (!file && findDownloads(DOWNLOAD_PATTERN).length === 0) {
+    console.log('\nExport HC1.2 (housing cost overburden) and HC3.1 (homeless population) from:');
+    console.log('https://www.oecd.org/en/data/datasets/oecd-affordable-housing-database.html');
+    console.log('and save them in data/raw as oecd-overburden*.csv and oecd-homelessness*.csv');
+  }
+  console.log('');
+
+  const { points } = await runSourcePlugin(plugin, { file });
+
+  // Print summary
+  for (const sourceId of Object.values(INDICATOR_SOURCES)) {
+    const countries = new Set(points.filter(p => p.sourceId === sourceId).map(p => p.countryIso3));
+    console.log(`  ${sourceId}: ${countries.size} countries`);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { HousingRecord, parseHousingDownload, transformHousingData, plugin };
@@ -0,0 +1,132 @@
+/**
+ * Source Plugin Contract
+ *
+ * Every fetcher in fetch/ exports a `plugin` describing its source:
+ *
+ * - id             Name of the processed file (data/processed/<id>.json)
+ * - rawFile        Name of the raw file in data/raw
+ * - required       Whether fetch-all.ts fails when this source fails
+ *                  (default: true)
+ * - metadata       Name, URL, license and data year, for reports and docs
+ * - normalization  Default normalization for each source ID it produces
+ *                  (methodology.json holds the values actually used)
+ * - fetch()        Download (or load) the raw data
+ * - transform()    Convert raw data to processed data points
+ * - rawSchema      Shape of the raw data, checked by validation.ts
+ *                  (optional)
+ *
+ * Sources published as files rather than through an API return their
+ * records as `ImportedData` (see import.ts), which records whether they
+ * came from a download or from the table built into the fetcher.
+ *
+ * Plugins are discovered automatically (see registry.ts), so adding a
+ * source only needs a new file in fetch/ and its entries in
+ * methodology.json.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProcessedDataPoint } from '../data-loader';
+import { SourceConfig } from '../methodology';
+import { Schema } from '../validation';
+import { CacheMode } from './http';
+
+export const RAW_DIR = path.join(__dirname, '../data/raw');
+export const PROCESSED_DIR = path.join(__dirname, '../data/processed');
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SourceMetadata {
+  name: string;
+  url: string;
+  license: string;
+  // Year of the latest data the source provides
+  year: number;
+}
+
+export interface SourceFetchOptions {
+  cacheMode?: CacheMode;
+  // Downloaded data file to import, for sources published as files
+  file?: string;
+}
+
+// Where a run's data came from: the source's API, a downloaded file, or
+// the table built into the fetcher
+export type DataMode = 'api' | 'file' | 'embedded';
+
+export interface ImportedData<R> {
+  mode: Exclude<DataMode, 'api'>;
+  // Names of the files the records were read from (file mode)
+  files?: string[];
+  records: R[];
+}
+
+export interface SourceRun {
+  mode: DataMode;
+  files?: string[];
+  points: ProcessedDataPoint[];
+}
+
+export interface SourcePlugin<Raw = unknown> {
+  id: string;
+  rawFile: string;
+  required?: boolean;
+  metadata: SourceMetadata;
+  normalization: Record<string, Pick<SourceConfig, 'inputRange' | 'invert' | 'normalization' | 'fields'>>;
+  fetch(options: SourceFetchOptions): Promise<Raw>;
+  transform(raw: Raw): ProcessedDataPoint[];
+  rawSchema?: Schema;
+}
+
+// ============================================
+// RUNNING
+// ============================================
+
+export function isSourcePlugin(value: unknown): value is SourcePlugin {
+  const plugin = value as SourcePlugin;
+  return !!plugin
+    && typeof plugin.id === 'string'
+    && typeof plugin.rawFile === 'string'
+    && typeof plugin.fetch === 'function'
+    && typeof plugin.transform === 'function';
+}
+
+export function isImportedData(raw: unknown): raw is ImportedData<unknown> {
+  const data = raw as ImportedData<unknown>;
+  return !!data && (data.mode === 'file' || data.mode === 'embedded') && Array.isArray(data.records);
+}
+
+/**
+ * Fetch a source, then save its raw data to data/raw/<rawFile> and its
+ * processed data points to data/processed/<id>.json. Nothing is written
+ * when fetching fails or produces no data points, so the previous files
+ * are kept.
+ */
+export async function runSourcePlugin<Raw>(
+  plugin: SourcePlugin<Raw>,
+  options: SourceFetchOptions = {}
+): Promise<SourceRun> {
+  const raw = await plugin.fetch(options);
+  const processed = plugin.transform(raw);
+
+  if (processed.length === 0) {
+    throw new Error(`${plugin.id} produced no data points`);
+  }
+
+  const rawPath = path.join(RAW_DIR, plugin.rawFile);
+  fs.mkdirSync(RAW_DIR, { recursive: true });
+  fs.writeFileSync(rawPath, JSON.stringify(raw, null, 2));
+  console.log(`Saved raw data to ${rawPath}`);
+
+  const processedPath = path.join(PROCESSED_DIR, `${plugin.id}.json`);
+  fs.mkdirSync(PROCESSED_DIR, { recursive: true });
+  fs.writeFileSync(processedPath, JSON.stringify(processed, null, 2));
+  console.log(`Processed ${processed.length} data points to ${processedPath}`);
+
+  if (isImportedData(raw)) {
+    return { mode: raw.mode, ...(raw.files ? { files: raw.files } : {}), points: processed };
+  }
+  return { mode: 'api', points: processed };
+}
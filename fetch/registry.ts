@@ -0,0 +1,48 @@
+/**
+ * Source Plugin Registry
+ *
+ * Discovers source plugins by loading every module in fetch/ and
+ * collecting the ones that export a `plugin` (see plugin.ts).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SourcePlugin, isSourcePlugin } from './plugin';
+
+/**
+ * Every source plugin in `dir`, sorted by id.
+ */
+export function discoverSourcePlugins(dir: string = __dirname): SourcePlugin[] {
+  const plugins: SourcePlugin[] = [];
+
+  const files = fs.readdirSync(dir)
+    .filter(f => /\.(ts|js)$/.test(f) && !f.endsWith('.d.ts'))
+    .filter(f => path.parse(f).name !== path.parse(__filename).name);
+
+  for (const file of files) {
+    const exported = require(path.join(dir, file));
+    if (isSourcePlugin(exported.plugin)) {
+      plugins.push(exported.plugin);
+    }
+  }
+
+  const ids = plugins.map(p => p.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate source plugin id "${duplicate}" in ${dir}`);
+  }
+
+  return plugins.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Source plugin with the given id. Throws if there is none.
+ */
+export function getSourcePlugin(id: string, dir: string = __dirname): SourcePlugin {
+  const plugins = discoverSourcePlugins(dir);
+  const plugin = plugins.find(p => p.id === id);
+  if (!plugin) {
+    throw new Error(`Unknown source "${id}". Available: ${plugins.map(p => p.id).join(', ')}`);
+  }
+  return plugin;
+}
@@ -2,9 +2,13 @@
 /**
  * RSF Press Freedom Index Data
  *
- * Reporters Without Borders (RSF) Press Freedom Index 2024
+ * Reporters Without Borders (RSF) Press Freedom Index
  * Source: https://rsf.org/en/index
  *
+ * Imports RSF's yearly CSV downloads (one file per year, semicolon
+ * separated with decimal commas) saved in data/raw as rsf*.csv / .xlsx,
+ * or --file <path>. Without a download, the 2024 sample below is used.
+ *
  * Scale: 0-100 where LOWER = better (inverted in our normalization)
  * 0-15: Good situation
  * 15-25: Satisfactory situation
@@ -13,11 +17,15 @@
  * 55+: Very serious situation
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
+import { ProcessedDataPoint } from '../data-loader';
+import { SourcePlugin, ImportedData, runSourcePlugin } from './plugin';
+import { FileImport, importedDataSchema, importSourceFiles, parseNumber, readTable } from './import';
+import { createCountryResolver } from '../country-codes';
+import { getArgValue } from '../cli';
 
-const DATA_DIR = path.join(__dirname, '../data/raw');
-const PROCESSED_DIR = path.join(__dirname, '../data/processed');
+// RSF downloads saved in data/raw, e.g. rsf-2024.csv
+const DOWNLOAD_PATTERN = /^rsf.*\.(csv|xlsx)$/i;
 
 // RSF Press Freedom Index 2024 (sample - full data from rsf.org)
 // Lower score = better press freedom
@@ -61,7 +69,7 @@ const RSF_2024: Record<string, { score: number; rank: number }> = {
   USA: { score: 26.09, rank: 32 },
   ITA: { score: 26.78, rank: 33 },
   ARG: { score: 27.45, rank: 34 },
-  ROM: { score: 28.34, rank: 35 },
+  ROU: { score: 28.34, rank: 35 },
   POL: { score: 29.67, rank: 36 },
   GRC: { score: 30.12, rank: 37 },
   ZAF: { score: 31.45, rank: 38 },
@@ -126,53 +134,100 @@ const RSF_2024: Record<string, { score: number; rank: number }> = {
   ERI: { score: 95.78, rank: 91 },
 };
 
-function saveRSFData() {
-  console.log('='.repeat(60));
-  console.log('RSF Press Freedom Index');
-  console.log('='.repeat(60));
+interface RSFRecord {
+  iso3: string;
+  year: number;
+  score: number;
+  rank?: number;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Parse one year of the RSF index. The score column is "Score <year>" (or
+ * "Score N" in older files); the year comes from the "Year (N)" column,
+ * the score column or the file name, in that order.
+ */
+function parseRSFDownload(filePath: string): RSFRecord[] {
+  const rows = readTable(filePath, ['ISO']);
+  const countries = createCountryResolver();
+  const records: RSFRecord[] = [];
+
+  const scoreColumn = Object.keys(rows[0] || {}).find(name => /^score( n| \d{4})?$/.test(name));
+  if (!scoreColumn) {
+    throw new Error(`No "Score" column in ${filePath}`);
+  }
+  const fileYear = parseNumber(scoreColumn.match(/\d{4}/)?.[0] || path.basename(filePath).match(/\d{4}/)?.[0]);
 
-  // Save raw data
-  const rawPath = path.join(DATA_DIR, 'rsf-2024.json');
-  fs.mkdirSync(DATA_DIR, { recursive: true });
-  fs.writeFileSync(rawPath, JSON.stringify(RSF_2024, null, 2));
-  console.log(`Saved raw data: ${Object.keys(RSF_2024).length} countries`);
-
-  // Transform to our format
-  const processed: Array<{
-    countryIso3: string;
-    sourceId: string;
-    year: number;
-    value: number;
-  }> = [];
-
-  for (const [iso3, data] of Object.entries(RSF_2024)) {
-    processed.push({
-      countryIso3: iso3,
-      sourceId: 'rsf_press_freedom',
-      year: 2024,
-      value: data.score,
-    });
+  for (const row of rows) {
+    const iso3 = countries.resolve(row['iso'], row['country_en']);
+    const score = parseNumber(row[scoreColumn], true);
+    const year = parseNumber(row['year (n)']) || fileYear;
+    if (!iso3 || !Number.isFinite(score) || !Number.isFinite(year)) continue;
+
+    const rank = parseNumber(row['rank'] || row[`rank ${year}`] || row['rank n']);
+    records.push({ iso3, year, score, ...(Number.isFinite(rank) ? { rank } : {}) });
   }
 
-  // Save processed data
-  const processedPath = path.join(PROCESSED_DIR, 'rsf-press-freedom.json');
-  fs.mkdirSync(PROCESSED_DIR, { recursive: true });
-  fs.writeFileSync(processedPath, JSON.stringify(processed, null, 2));
-  console.log(`Processed ${processed.length} data points`);
+  countries.assertAllMatched(`RSF (${filePath})`);
+  return records;
+}
 
-  return processed;
+const RSF_IMPORT: FileImport<RSFRecord> = {
+  label: 'RSF',
+  pattern: DOWNLOAD_PATTERN,
+  parse: parseRSFDownload,
+  key: record => `${record.iso3}:${record.year}`,
+  embedded: () => Object.entries(RSF_2024).map(([iso3, entry]) => ({ iso3, year: 2024, ...entry })),
+};
+
+// Transform to our format
+function transformRSFData(data: ImportedData<RSFRecord>): ProcessedDataPoint[] {
+  return data.records.map(record => ({
+    countryIso3: record.iso3,
+    sourceId: 'rsf_press_freedom',
+    year: record.year,
+    value: record.score,
+  }));
 }
 
+const plugin: SourcePlugin<ImportedData<RSFRecord>> = {
+  id: 'rsf-press-freedom',
+  rawFile: 'rsf-press-freedom.json',
+  metadata: {
+    name: 'RSF World Press Freedom Index',
+    url: 'https://rsf.org/en/index',
+    license: 'Public',
+    year: 2024,
+  },
+  normalization: {
+    rsf_press_freedom: { inputRange: [0, 100], invert: true },
+  },
+  fetch: options => importSourceFiles(RSF_IMPORT, options),
+  transform: transformRSFData,
+  rawSchema: importedDataSchema({ score: { type: 'number' }, rank: { type: 'number', integer: true } }, ['rank']),
+};
+
 async function main() {
-  console.log('\nNote: For complete data, download from:');
+  console.log('='.repeat(60));
+  console.log('RSF Press Freedom Index');
+  console.log('='.repeat(60));
+
+  console.log('\nNote: For complete data, download the yearly CSV files from:');
   console.log('https://rsf.org/en/index');
+  console.log('and save them in data/raw as rsf-<year>.csv');
   console.log('');
 
-  saveRSFData();
+  await runSourcePlugin(plugin, { file: getArgValue(process.argv.slice(2), '--file') });
 }
 
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
 }
 
-export { RSF_2024, saveRSFData };
+export { RSF_2024, RSFRecord, parseRSFDownload, transformRSFData, plugin };
@@ -0,0 +1,342 @@
+/**
+ * Spreadsheet readers for source downloads
+ *
+ * Several sources publish their full data as CSV or Excel files rather
+ * than through an API. These helpers read either format into rows of
+ * cell strings, so importers don't need a spreadsheet library:
+ *
+ * - CSV follows RFC 4180 (quoted fields, "" escapes, embedded newlines);
+ *   comma, semicolon and tab separators are detected. Large files can be
+ *   read a row at a time (readCsvFile)
+ * - XLSX is read straight from the zip archive; only cell values are
+ *   read (no formulas, styles or dates)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { StringDecoder } from 'string_decoder';
+
+export type SpreadsheetRow = string[];
+
+// Worksheet name, or a pattern matched against worksheet names
+export type SheetSelector = string | RegExp;
+
+// Bytes read at a time by readCsvFile
+const CSV_CHUNK_SIZE = 1024 * 1024;
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Field separator of a CSV file: whichever of comma, semicolon or tab is
+ * most common in its first line (European exports use semicolons).
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map(d => ({ d, count: firstLine.split(d).length - 1 }));
+  return counts.reduce((best, c) => (c.count > best.count ? c : best)).d;
+}
+
+export interface CsvParser {
+  // Parse the next chunk of text; chunks may split rows and fields
+  write(text: string): void;
+  // Finish the last row
+  end(): void;
+}
+
+/**
+ * Incremental CSV parser, for files too large to hold in memory as rows.
+ * Each complete row is passed to `onRow`.
+ */
+export function createCsvParser(delimiter: string, onRow: (row: SpreadsheetRow) => void): CsvParser {
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // A quote inside a quoted field: either the first of an "" escape or
+  // the closing quote, depending on the next character
+  let pendingQuote = false;
+  // A \r ended the last row, so a following \n is part of the line break
+  let afterCarriageReturn = false;
+  let started = false;
+
+  function endRow() {
+    row.push(field);
+    onRow(row);
+    row = [];
+    field = '';
+  }
+
+  return {
+    write(text) {
+      // Strip the byte order mark Excel adds to UTF-8 exports
+      const input = started ? text : text.replace(/^\uFEFF/, '');
+      started = true;
+
+      for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (afterCarriageReturn) {
+          afterCarriageReturn = false;
+          if (char === '\n') continue;
+        }
+
+        if (pendingQuote) {
+          pendingQuote = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          quoted = false;
+        }
+
+        if (quoted) {
+          if (char === '"') {
+            pendingQuote = true;
+          } else {
+            field += char;
+          }
+        } else if (char === '"') {
+          quoted = true;
+        } else if (char === delimiter) {
+          row.push(field);
+          field = '';
+        } else if (char === '\n' || char === '\r') {
+          afterCarriageReturn = char === '\r';
+          endRow();
+        } else {
+          field += char;
+        }
+      }
+    },
+    end() {
+      if (field !== '' || row.length > 0) {
+        endRow();
+      }
+    },
+  };
+}
+
+export function parseCsv(text: string, delimiter: string = ','): SpreadsheetRow[] {
+  const rows: SpreadsheetRow[] = [];
+  const parser = createCsvParser(delimiter, row => rows.push(row));
+  parser.write(text);
+  parser.end();
+  return rows;
+}
+
+/**
+ * Read a CSV file a chunk at a time, passing each row to `onRow`. The
+ * separator is detected from the first chunk.
+ */
+export function readCsvFile(filePath: string, onRow: (row: SpreadsheetRow) => void) {
+  const decoder = new StringDecoder('utf-8');
+  const buffer = Buffer.alloc(CSV_CHUNK_SIZE);
+  const fd = fs.openSync(filePath, 'r');
+  let parser: CsvParser | undefined;
+
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      const text = decoder.write(buffer.subarray(0, bytesRead));
+      parser = parser || createCsvParser(detectDelimiter(text), onRow);
+      parser.write(text);
+    }
+    parser?.write(decoder.end());
+    parser?.end();
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+/**
+ * Read every file in a zip archive, keyed by path.
+ */
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+
+  // The end of central directory record is in the last 64KB (+22 bytes)
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a zip archive (is the file really .xlsx?)');
+  }
+
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    // Sizes in the local header may be zero (data descriptor), so only its
+    // name and extra lengths are read from it
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      entries.set(name, zlib.inflateRawSync(data));
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Text of all <t> elements in `xml` (rich text is split over several runs)
+function readText(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), m => decodeXml(m[1])).join('');
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+}
+
+// Zero-based column index of a cell reference such as "AB12"
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/)?.[0] || 'A';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Path of the first worksheet whose name matches `sheet` (default: the
+ * first sheet).
+ */
+function findSheetPath(entries: Map<string, Buffer>, sheet?: SheetSelector): string {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf-8');
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf-8');
+  if (!workbook || !rels) {
+    throw new Error('Not an Excel workbook (xl/workbook.xml missing)');
+  }
+
+  const sheets = Array.from(workbook.matchAll(/<sheet\s[^>]*>/g), m => ({
+    name: decodeXml(getAttribute(m[0], 'name') || ''),
+    relId: getAttribute(m[0], 'r:id'),
+  }));
+  const match = sheet === undefined
+    ? sheets[0]
+    : sheets.find(s => (typeof sheet === 'string' ? s.name === sheet : sheet.test(s.name)));
+  if (!match) {
+    throw new Error(`Sheet ${sheet} not found. Available: ${sheets.map(s => s.name).join(', ')}`);
+  }
+
+  const rel = Array.from(rels.matchAll(/<Relationship\s[^>]*>/g), m => m[0])
+    .find(tag => getAttribute(tag, 'Id') === match.relId);
+  const target = rel && getAttribute(rel, 'Target');
+  if (!target) {
+    throw new Error(`Sheet "${match.name}" has no worksheet`);
+  }
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+export function parseXlsx(buffer: Buffer, sheet?: SheetSelector): SpreadsheetRow[] {
+  const entries = readZipEntries(buffer);
+  const sheetPath = findSheetPath(entries, sheet);
+  const xml = entries.get(sheetPath)?.toString('utf-8');
+  if (!xml) {
+    throw new Error(`Worksheet ${sheetPath} missing from workbook`);
+  }
+
+  const sharedXml = entries.get('xl/sharedStrings.xml')?.toString('utf-8') || '';
+  const sharedStrings = Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g), m => readText(m[1]));
+
+  const rows: SpreadsheetRow[] = [];
+
+  for (const rowMatch of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] || '';
+      const type = getAttribute(attributes, 't');
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's' && value !== undefined) {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = readText(content);
+      } else if (value !== undefined) {
+        text = decodeXml(value);
+      }
+
+      const ref = getAttribute(attributes, 'r');
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = text;
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// ============================================
+// FILES
+// ============================================
+
+/**
+ * Read a .csv or .xlsx file into rows of cell strings. `sheet` picks the
+ * worksheet of an .xlsx file by name or pattern.
+ */
+export function readSpreadsheet(filePath: string, sheet?: SheetSelector): SpreadsheetRow[] {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.csv') {
+    const text = fs.readFileSync(filePath, 'utf-8');
+    return parseCsv(text, detectDelimiter(text));
+  }
+  if (extension === '.xlsx') {
+    return parseXlsx(fs.readFileSync(filePath), sheet);
+  }
+  throw new Error(`Unsupported spreadsheet format "${extension}" (expected .csv or .xlsx): ${filePath}`);
+}
+
+/**
+ * Index of the first row containing every one of `columns` (compared
+ * case-insensitively), for files with title rows above the header. A
+ * column given as a list matches any of its names.
+ */
+export function findHeaderRow(rows: SpreadsheetRow[], columns: (string | string[])[]): number {
+  const wanted = columns.map(c => (Array.isArray(c) ? c : [c]).map(name => name.toLowerCase()));
+  return rows.findIndex(row => {
+    const cells = row.map(cell => cell.trim().toLowerCase());
+    return wanted.every(names => names.some(name => cells.includes(name)));
+  });
+}
@@ -7,13 +7,23 @@
  *
  * The CPI (0-100) measures perceived public sector corruption.
  * Higher = less corrupt (cleaner).
+ *
+ * Imports Transparency International's results spreadsheets (e.g.
+ * CPI2024_Results.xlsx, or a CSV export) saved in data/raw as CPI*.xlsx /
+ * .csv, or --file <path>. Both the per-year layout ("CPI score 2024",
+ * "CPI score 2023", ... columns) and the long historical layout (Year and
+ * "CPI score" columns) are read. Without a download, the 2024 table below
+ * is used.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
+import { ProcessedDataPoint } from '../data-loader';
+import { SourcePlugin, ImportedData, runSourcePlugin } from './plugin';
+import { FileImport, importedDataSchema, importSourceFiles, parseNumber, readTable } from './import';
+import { createCountryResolver } from '../country-codes';
+import { getArgValue } from '../cli';
 
-const DATA_DIR = path.join(__dirname, '../data/raw');
-const PROCESSED_DIR = path.join(__dirname, '../data/processed');
+// Transparency International downloads saved in data/raw
+const DOWNLOAD_PATTERN = /^cpi.*\.(csv|xlsx)$/i;
 
 // CPI 2024 data (from official Transparency International release)
 // Source: https://www.transparency.org/en/cpi/2024
@@ -180,61 +190,114 @@ const CPI_2024: Record<string, { score: number; rank: number }> = {
   BDI: { score: 17, rank: 168 },
 };
 
-function saveCPIData() {
-  console.log('='.repeat(60));
-  console.log('Transparency International CPI 2024');
-  console.log('='.repeat(60));
+interface CPIRecord {
+  iso3: string;
+  year: number;
+  score: number;
+  rank?: number;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+function parseCPIDownload(filePath: string): CPIRecord[] {
+  const rows = readTable(filePath, ['ISO3']);
+  const countries = createCountryResolver();
+  const records: CPIRecord[] = [];
 
-  // Save raw data
-  const rawPath = path.join(DATA_DIR, 'transparency-cpi-2024.json');
-  fs.mkdirSync(DATA_DIR, { recursive: true });
-  fs.writeFileSync(rawPath, JSON.stringify(CPI_2024, null, 2));
-  console.log(`Saved raw data: ${Object.keys(CPI_2024).length} countries`);
-
-  // Process data
-  const processed: Array<{
-    countryIso3: string;
-    sourceId: string;
-    year: number;
-    value: number;
-  }> = [];
-
-  for (const [iso3, data] of Object.entries(CPI_2024)) {
-    processed.push({
-      countryIso3: iso3,
-      sourceId: 'transparency_cpi',
-      year: 2024,
-      value: data.score,
-    });
+  // Per-year layout: "CPI score 2024" (or "CPI 2024 score") columns
+  const yearColumns = Object.keys(rows[0] || {})
+    .map(name => ({ name, year: Number(name.match(/^cpi (?:score )?(\d{4})(?: score)?$/)?.[1]) }))
+    .filter(c => c.year > 0);
+  const isLong = 'year' in (rows[0] || {}) && 'cpi score' in (rows[0] || {});
+  if (!isLong && yearColumns.length === 0) {
+    throw new Error(`No "CPI score <year>" or "Year" and "CPI score" columns in ${filePath}`);
   }
 
-  // Save processed data
-  const processedPath = path.join(PROCESSED_DIR, 'transparency-cpi.json');
-  fs.mkdirSync(PROCESSED_DIR, { recursive: true });
-  fs.writeFileSync(processedPath, JSON.stringify(processed, null, 2));
-  console.log(`Processed ${processed.length} data points`);
+  for (const row of rows) {
+    const iso3 = countries.resolve(row['iso3'], row['country / territory'] || row['country']);
+    if (!iso3) continue;
 
-  // Print summary
-  console.log('\nTop 10 least corrupt:');
-  const sorted = Object.entries(CPI_2024).sort((a, b) => b[1].score - a[1].score);
-  for (let i = 0; i < Math.min(10, sorted.length); i++) {
-    console.log(`  ${i + 1}. ${sorted[i][0]}: ${sorted[i][1].score}`);
+    const scores = isLong
+      ? [{ year: parseNumber(row['year']), score: parseNumber(row['cpi score']), rank: parseNumber(row['rank']) }]
+      : yearColumns.map(({ name, year }) => ({
+        year,
+        score: parseNumber(row[name]),
+        rank: parseNumber(row[`rank ${year}`] ?? (yearColumns.length === 1 ? row['rank'] : undefined)),
+      }));
+
+    for (const { year, score, rank } of scores) {
+      if (!Number.isFinite(year) || !Number.isFinite(score)) continue;
+      records.push({ iso3, year, score, ...(Number.isFinite(rank) ? { rank } : {}) });
+    }
   }
 
-  return processed;
+  countries.assertAllMatched(`CPI (${filePath})`);
+  return records;
+}
+
+const CPI_IMPORT: FileImport<CPIRecord> = {
+  label: 'CPI',
+  pattern: DOWNLOAD_PATTERN,
+  parse: parseCPIDownload,
+  key: record => `${record.iso3}:${record.year}`,
+  embedded: () => Object.entries(CPI_2024).map(([iso3, entry]) => ({ iso3, year: 2024, ...entry })),
+};
+
+// Transform to our format
+function transformCPIData(data: ImportedData<CPIRecord>): ProcessedDataPoint[] {
+  return data.records.map(record => ({
+    countryIso3: record.iso3,
+    sourceId: 'transparency_cpi',
+    year: record.year,
+    value: record.score,
+  }));
 }
 
+const plugin: SourcePlugin<ImportedData<CPIRecord>> = {
+  id: 'transparency-cpi',
+  rawFile: 'transparency-cpi.json',
+  metadata: {
+    name: 'Transparency International Corruption Perceptions Index',
+    url: 'https://www.transparency.org/en/cpi/2024',
+    license: 'Public',
+    year: 2024,
+  },
+  normalization: {
+    transparency_cpi: { inputRange: [0, 100], invert: false },
+  },
+  fetch: options => importSourceFiles(CPI_IMPORT, options),
+  transform: transformCPIData,
+  rawSchema: importedDataSchema({ score: { type: 'number' }, rank: { type: 'number', integer: true } }, ['rank']),
+};
+
 async function main() {
+  console.log('='.repeat(60));
+  console.log('Transparency International CPI');
+  console.log('='.repeat(60));
+
   console.log('\nSource: Transparency International');
-  console.log('Index: Corruption Perceptions Index 2024');
+  console.log('Index: Corruption Perceptions Index');
   console.log('Scale: 0 (highly corrupt) to 100 (very clean)');
   console.log('License: Public\n');
 
-  saveCPIData();
+  const { points } = await runSourcePlugin(plugin, { file: getArgValue(process.argv.slice(2), '--file') });
+
+  // Print summary
+  const latestYear = Math.max(...points.map(p => p.year));
+  console.log(`\nTop 10 least corrupt (${latestYear}):`);
+  const sorted = points.filter(p => p.year === latestYear).sort((a, b) => b.value - a.value);
+  for (let i = 0; i < Math.min(10, sorted.length); i++) {
+    console.log(`  ${i + 1}. ${sorted[i].countryIso3}: ${sorted[i].value}`);
+  }
 }
 
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
 }
 
-export { CPI_2024, saveCPIData };
+export { CPI_2024, CPIRecord, parseCPIDownload, transformCPIData, plugin };
@@ -0,0 +1,178 @@
+#!/usr/bin/env npx tsx
+/**
+ * UNDP Human Development Report Composite Indices
+ *
+ * Source: UNDP Human Development Report Office
+ * URL: https://hdr.undp.org/data-center/documentation-and-downloads
+ *
+ * Imports three indices from the composite indices time series:
+ * - hdi    Human Development Index (0-1, higher = better)
+ * - ihdi   Inequality-adjusted HDI (0-1, higher = better; from 2010)
+ * - gii    Gender Inequality Index (0-1, higher = more unequal)
+ *
+ * There is no API and no built-in table: save the "All composite indices
+ * and components time series" CSV in data/raw
+ * (HDR*_Composite_indices_complete_time_series.csv), or pass
+ * --file <path>. The file has one row per country and one column per
+ * index and year (hdi_1990, ..., gii_2022).
+ *
+ * License: CC BY 3.0 IGO
+ */
+
+import { ProcessedDataPoint } from '../data-loader';
+import { SourcePlugin, ImportedData, runSourcePlugin } from './plugin';
+import { FileImport, findDownloads, importedDataSchema, importSourceFiles, parseNumber, readTable } from './import';
+import { createCountryResolver } from '../country-codes';
+import { getArgValue } from '../cli';
+
+// HDR downloads saved in data/raw, e.g.
+// HDR23-24_Composite_indices_complete_time_series.csv
+const DOWNLOAD_PATTERN = /^hdr.*composite.*\.csv$/i;
+
+type HDRIndex = 'hdi' | 'ihdi' | 'gii';
+
+// Index -> source ID it is imported as
+const HDR_INDICES: Record<HDRIndex, string> = {
+  hdi: 'undp_hdi',
+  ihdi: 'undp_ihdi',
+  gii: 'undp_gii',
+};
+
+// Regional and development-group aggregates have codes starting with ZZ
+// (e.g. ZZK.WORLD)
+const AGGREGATE_CODE = /^zz/i;
+
+interface HDRRecord {
+  iso3: string;
+  year: number;
+  hdi?: number;
+  ihdi?: number;
+  gii?: number;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Parse the composite indices time series into one record per country
+ * and year with at least one of the indices.
+ */
+function parseHDRDownload(filePath: string): HDRRecord[] {
+  const rows = readTable(filePath, ['iso3', 'country']);
+  const countries = createCountryResolver();
+  const byYear = new Map<string, HDRRecord>();
+
+  // Columns of the imported indices, e.g. gii_2022 -> gii, 2022
+  const columns = Object.keys(rows[0] || {})
+    .map(name => name.match(/^([a-z]+)_(\d{4})$/))
+    .filter((match): match is RegExpMatchArray => !!match && match[1] in HDR_INDICES)
+    .map(([name, index, year]) => ({ name, index: index as HDRIndex, year: Number(year) }));
+  if (!columns.some(c => c.index === 'hdi')) {
+    throw new Error(`No hdi_<year> columns in ${filePath}`);
+  }
+
+  for (const row of rows) {
+    if (AGGREGATE_CODE.test(row['iso3'])) continue;
+    const iso3 = countries.resolve(row['iso3'], row['country']);
+    if (!iso3) continue;
+
+    for (const { name, index, year } of columns) {
+      const value = parseNumber(row[name]);
+      if (!Number.isFinite(value)) continue;
+
+      const key = `${iso3}:${year}`;
+      if (!byYear.has(key)) byYear.set(key, { iso3, year });
+      byYear.get(key)![index] = value;
+    }
+  }
+
+  countries.assertAllMatched(`UNDP HDR (${filePath})`);
+  return Array.from(byYear.values());
+}
+
+const HDR_IMPORT: FileImport<HDRRecord> = {
+  label: 'UNDP HDR',
+  pattern: DOWNLOAD_PATTERN,
+  parse: parseHDRDownload,
+  key: record => `${record.iso3}:${record.year}`,
+};
+
+// Transform to our format
+function transformHDRData(data: ImportedData<HDRRecord>): ProcessedDataPoint[] {
+  const processed: ProcessedDataPoint[] = [];
+
+  for (const record of data.records) {
+    for (const [index, sourceId] of Object.entries(HDR_INDICES)) {
+      const value = record[index as HDRIndex];
+      if (value === undefined) continue;
+      processed.push({
+        countryIso3: record.iso3,
+        sourceId,
+        year: record.year,
+        value,
+      });
+    }
+  }
+
+  return processed;
+}
+
+const plugin: SourcePlugin<ImportedData<HDRRecord>> = {
+  id: 'undp-hdr',
+  rawFile: 'undp-hdr.json',
+  // Needs a manual download
+  required: false,
+  metadata: {
+    name: 'UNDP Human Development Report Composite Indices',
+    url: 'https://hdr.undp.org/data-center/documentation-and-downloads',
+    license: 'CC BY 3.0 IGO',
+    year: 2022,
+  },
+  normalization: {
+    undp_hdi: { inputRange: [0, 1], invert: false },
+    undp_ihdi: { inputRange: [0, 1], invert: false },
+    undp_gii: { inputRange: [0, 1], invert: true },
+  },
+  fetch: options => importSourceFiles(HDR_IMPORT, options),
+  transform: transformHDRData,
+  rawSchema: importedDataSchema({
+    hdi: { type: 'number' },
+    ihdi: { type: 'number' },
+    gii: { type: 'number' },
+  }, ['hdi', 'ihdi', 'gii']),
+};
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('UNDP Human Development Report Data');
+  console.log('='.repeat(60));
+
+  const file = getArgValue(process.argv.slice(2), '--file');
+  if (!file && findDownloads(DOWNLOAD_PATTERN).length === 0) {
+    console.log('\nDownload "All composite indices and components time series" (CSV) from:');
+    console.log('https://hdr.undp.org/data-center/documentation-and-downloads');
+    console.log('and save it in data/raw');
+  }
+  console.log('');
+
+  const { points } = await runSourcePlugin(plugin, { file });
+
+  // Print summary
+  const hdi = points.filter(p => p.sourceId === 'undp_hdi');
+  const latestYear = Math.max(...hdi.map(p => p.year));
+  const sorted = hdi.filter(p => p.year === latestYear).sort((a, b) => b.value - a.value);
+  console.log(`\nTop 10 by Human Development Index (${latestYear}):`);
+  for (let i = 0; i < Math.min(10, sorted.length); i++) {
+    console.log(`  ${i + 1}. ${sorted[i].countryIso3}: ${sorted[i].value}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { HDRRecord, parseHDRDownload, transformHDRData, plugin };
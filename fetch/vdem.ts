@@ -0,0 +1,205 @@
+#!/usr/bin/env npx tsx
+/**
+ * V-Dem (Varieties of Democracy) Data
+ *
+ * Source: V-Dem Institute, University of Gothenburg
+ * URL: https://www.v-dem.net/data/the-v-dem-dataset/
+ *
+ * Imports two indices from the Country-Year Core dataset:
+ * - v2x_polyarchy       Electoral Democracy Index (0-1)
+ * - v2x_freexp_altinf   Freedom of Expression and Alternative Sources of
+ *                       Information Index (0-1)
+ * Higher = more democratic / more free.
+ *
+ * V-Dem has no API and there is no built-in table: download the
+ * Country-Year Core CSV and unzip it into data/raw (V-Dem-CY-Core-v*.csv),
+ * or pass --file <path>. The file holds several hundred columns, so it is
+ * read a row at a time. Years from DEFAULT_FIRST_YEAR on are imported;
+ * --first-year <year> imports a longer (or shorter) history.
+ *
+ * License: CC BY-SA 4.0
+ */
+
+import { ProcessedDataPoint } from '../data-loader';
+import { SourcePlugin, ImportedData, runSourcePlugin } from './plugin';
+import { FileImport, findDownloads, importedDataSchema, importSourceFiles, parseNumber } from './import';
+import { SpreadsheetRow, readCsvFile } from './spreadsheet';
+import { createCountryResolver } from '../country-codes';
+import { getArgValue, parseIntegerArg } from '../cli';
+
+// V-Dem downloads saved in data/raw, e.g. V-Dem-CY-Core-v14.csv
+const DOWNLOAD_PATTERN = /^v-dem-cy-(core|full).*\.csv$/i;
+
+// V-Dem starts in 1789. The other sources start in the 2000s, and past
+// years mostly backed by V-Dem alone are left out of score histories
+// anyway (see MIN_HISTORY_COVERAGE in pipeline.ts). Earlier years also
+// include historical states without an ISO 3166 code, which would need
+// adding to VDEM_IGNORE
+const DEFAULT_FIRST_YEAR = 2000;
+
+// Earliest year validation.ts accepts
+const MIN_FIRST_YEAR = 1900;
+
+// V-Dem units without an ISO 3166 code of their own
+const VDEM_IGNORE = ['Palestine/Gaza', 'Somaliland', 'Zanzibar'];
+
+interface VDemRecord {
+  iso3: string;
+  // Country name as given in the download
+  country: string;
+  year: number;
+  polyarchy?: number;
+  freexp?: number;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Parse the Country-Year dataset: one row per country and year, with
+ * country_name, country_text_id (mostly ISO3), year and one column per
+ * variable. Rows before `firstYear` or without either index are skipped.
+ */
+function parseVDemDownload(filePath: string, firstYear: number = DEFAULT_FIRST_YEAR): VDemRecord[] {
+  const countries = createCountryResolver({ ignore: VDEM_IGNORE });
+  const records: VDemRecord[] = [];
+  let columns: Record<string, number> | undefined;
+
+  readCsvFile(filePath, (row: SpreadsheetRow) => {
+    if (!columns) {
+      columns = Object.fromEntries(row.map((name, index) => [name.trim().toLowerCase(), index]));
+      const missing = ['country_name', 'country_text_id', 'year', 'v2x_polyarchy', 'v2x_freexp_altinf']
+        .filter(name => columns![name] === undefined);
+      if (missing.length > 0) {
+        throw new Error(`Missing V-Dem columns ${missing.join(', ')} in ${filePath}`);
+      }
+      return;
+    }
+
+    const year = parseNumber(row[columns.year]);
+    if (!(year >= firstYear)) return;
+
+    const polyarchy = parseNumber(row[columns.v2x_polyarchy]);
+    const freexp = parseNumber(row[columns.v2x_freexp_altinf]);
+    if (!Number.isFinite(polyarchy) && !Number.isFinite(freexp)) return;
+
+    const country = row[columns.country_name].trim();
+    const iso3 = countries.resolve(row[columns.country_text_id], country);
+    if (!iso3) return;
+
+    records.push({
+      iso3,
+      country,
+      year,
+      ...(Number.isFinite(polyarchy) ? { polyarchy } : {}),
+      ...(Number.isFinite(freexp) ? { freexp } : {}),
+    });
+  });
+
+  if (!columns) {
+    throw new Error(`Empty V-Dem file ${filePath}`);
+  }
+
+  countries.assertAllMatched(`V-Dem (${filePath})`);
+  return records;
+}
+
+function vdemImport(firstYear: number = DEFAULT_FIRST_YEAR): FileImport<VDemRecord> {
+  return {
+    label: 'V-Dem',
+    pattern: DOWNLOAD_PATTERN,
+    parse: filePath => parseVDemDownload(filePath, firstYear),
+    key: record => `${record.iso3}:${record.year}`,
+  };
+}
+
+// Transform to our format
+function transformVDemData(data: ImportedData<VDemRecord>): ProcessedDataPoint[] {
+  const processed: ProcessedDataPoint[] = [];
+
+  for (const record of data.records) {
+    // Electoral Democracy Index (0-1)
+    if (record.polyarchy !== undefined) {
+      processed.push({
+        countryIso3: record.iso3,
+        sourceId: 'vdem_electoral',
+        year: record.year,
+        value: record.polyarchy,
+      });
+    }
+
+    // Freedom of Expression and Alternative Sources of Information (0-1)
+    if (record.freexp !== undefined) {
+      processed.push({
+        countryIso3: record.iso3,
+        sourceId: 'vdem_media',
+        year: record.year,
+        value: record.freexp,
+      });
+    }
+  }
+
+  return processed;
+}
+
+const plugin: SourcePlugin<ImportedData<VDemRecord>> = {
+  id: 'vdem',
+  rawFile: 'vdem.json',
+  // Needs a manual download
+  required: false,
+  metadata: {
+    name: 'V-Dem Electoral Democracy and Freedom of Expression Indices',
+    url: 'https://www.v-dem.net/data/the-v-dem-dataset/',
+    license: 'CC BY-SA 4.0',
+    year: 2023,
+  },
+  normalization: {
+    vdem_electoral: { inputRange: [0, 1], invert: false },
+    vdem_media: { inputRange: [0, 1], invert: false },
+  },
+  fetch: options => importSourceFiles(vdemImport(), options),
+  transform: transformVDemData,
+  rawSchema: importedDataSchema({
+    country: { type: 'string' },
+    polyarchy: { type: 'number' },
+    freexp: { type: 'number' },
+  }, ['polyarchy', 'freexp']),
+};
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('V-Dem Data');
+  console.log('='.repeat(60));
+
+  const args = process.argv.slice(2);
+  const file = getArgValue(args, '--file');
+  const firstYear = parseIntegerArg(args, '--first-year', DEFAULT_FIRST_YEAR, MIN_FIRST_YEAR);
+  if (!file && findDownloads(DOWNLOAD_PATTERN).length === 0) {
+    console.log('\nDownload the "Country-Year: V-Dem Core" CSV from:');
+    console.log('https://www.v-dem.net/data/the-v-dem-dataset/');
+    console.log('and unzip it into data/raw');
+  }
+  console.log('');
+
+  console.log(`Importing years from ${firstYear}`);
+  const { points } = await runSourcePlugin({ ...plugin, fetch: options => importSourceFiles(vdemImport(firstYear), options) }, { file });
+
+  // Print summary
+  const electoral = points.filter(p => p.sourceId === 'vdem_electoral');
+  const latestYear = Math.max(...electoral.map(p => p.year));
+  const sorted = electoral.filter(p => p.year === latestYear).sort((a, b) => b.value - a.value);
+  console.log(`\nTop 10 by Electoral Democracy Index (${latestYear}):`);
+  for (let i = 0; i < Math.min(10, sorted.length); i++) {
+    console.log(`  ${i + 1}. ${sorted[i].countryIso3}: ${sorted[i].value}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { VDemRecord, parseVDemDownload, transformVDemData, plugin };
@@ -11,13 +11,26 @@
  *
  * Data year: 2021 (most recent comprehensive dataset)
  * License: CC BY-NC-SA 3.0 IGO
+ *
+ * Imports the Global Health Observatory export of indicator
+ * UHC_INDEX_REPORTED saved in data/raw as UHC_INDEX_REPORTED*.json (the
+ * GHO OData API response) or .csv / .xlsx (the GHO data export), or
+ * --file <path>. Every year in the file is read. Without a download, the
+ * 2021 table below is used.
+ *
+ * API: https://ghoapi.azureedge.net/api/UHC_INDEX_REPORTED
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { ProcessedDataPoint } from '../data-loader';
+import { SourcePlugin, ImportedData, runSourcePlugin } from './plugin';
+import { FileImport, importedDataSchema, importSourceFiles, parseNumber, readTable } from './import';
+import { createCountryResolver } from '../country-codes';
+import { getArgValue } from '../cli';
 
-const DATA_DIR = path.join(__dirname, '../data/raw');
-const PROCESSED_DIR = path.join(__dirname, '../data/processed');
+// GHO exports saved in data/raw, named after the indicator code
+const DOWNLOAD_PATTERN = /^uhc_index_reported.*\.(json|csv|xlsx)$/i;
 
 // WHO UHC Service Coverage Index 2021
 // Source: WHO Global Health Observatory
@@ -185,67 +198,122 @@ const WHO_UHC_2021: Record<string, number> = {
   ERI: 35,
 };
 
-function saveWHOUHCData() {
-  console.log('='.repeat(60));
-  console.log('WHO UHC Service Coverage Index 2021');
-  console.log('='.repeat(60));
+interface WHOUHCRecord {
+  iso3: string;
+  year: number;
+  value: number;
+}
 
-  // Save raw data
-  const rawPath = path.join(DATA_DIR, 'who-uhc-2021.json');
-  fs.mkdirSync(DATA_DIR, { recursive: true });
-  fs.writeFileSync(rawPath, JSON.stringify(WHO_UHC_2021, null, 2));
-  console.log(`Saved raw data: ${Object.keys(WHO_UHC_2021).length} countries`);
-
-  // Process data
-  const processed: Array<{
-    countryIso3: string;
-    sourceId: string;
-    year: number;
-    value: number;
-  }> = [];
-
-  for (const [iso3, value] of Object.entries(WHO_UHC_2021)) {
-    processed.push({
-      countryIso3: iso3,
-      sourceId: 'who_uhc_index',
-      year: 2021,
-      value,
-    });
-  }
+// One fact of a GHO OData API response
+interface GHOFact {
+  SpatialDimType?: string;
+  SpatialDim?: string;
+  TimeDim?: number;
+  NumericValue?: number | null;
+}
 
-  // Save processed data
-  const processedPath = path.join(PROCESSED_DIR, 'who-uhc.json');
-  fs.mkdirSync(PROCESSED_DIR, { recursive: true });
-  fs.writeFileSync(processedPath, JSON.stringify(processed, null, 2));
-  console.log(`Processed ${processed.length} data points`);
+// ============================================
+// IMPORT
+// ============================================
 
-  // Print summary
-  console.log('\nTop 10 by UHC Index:');
-  const sorted = Object.entries(WHO_UHC_2021).sort((a, b) => b[1] - a[1]);
-  for (let i = 0; i < Math.min(10, sorted.length); i++) {
-    console.log(`  ${i + 1}. ${sorted[i][0]}: ${sorted[i][1]}`);
-  }
+/**
+ * Parse a GHO export: the OData JSON response ({ value: [facts] }) or the
+ * CSV/Excel data export (SpatialDimValueCode, Period, FactValueNumeric).
+ * Regional and global aggregates are skipped.
+ */
+function parseWHOUHCDownload(filePath: string): WHOUHCRecord[] {
+  const countries = createCountryResolver();
+  const records: WHOUHCRecord[] = [];
 
-  console.log('\nBottom 10:');
-  for (let i = Math.max(0, sorted.length - 10); i < sorted.length; i++) {
-    console.log(`  ${sorted.length - (sorted.length - i - 1)}. ${sorted[i][0]}: ${sorted[i][1]}`);
+  if (path.extname(filePath).toLowerCase() === '.json') {
+    const facts: GHOFact[] = JSON.parse(fs.readFileSync(filePath, 'utf-8')).value || [];
+    for (const fact of facts) {
+      if (fact.SpatialDimType !== 'COUNTRY') continue;
+      const iso3 = countries.resolve(fact.SpatialDim);
+      if (!iso3 || typeof fact.TimeDim !== 'number' || typeof fact.NumericValue !== 'number') continue;
+      records.push({ iso3, year: fact.TimeDim, value: fact.NumericValue });
+    }
+  } else {
+    for (const row of readTable(filePath, [['SpatialDimValueCode', 'Location'], 'Period'])) {
+      if (row['location type'] && row['location type'].toLowerCase() !== 'country') continue;
+      const iso3 = countries.resolve(row['spatialdimvaluecode'], row['location']);
+      const year = parseNumber(row['period']);
+      const value = parseNumber(row['factvaluenumeric'] ?? row['value']);
+      if (!iso3 || !Number.isFinite(year) || !Number.isFinite(value)) continue;
+      records.push({ iso3, year, value });
+    }
   }
 
-  return processed;
+  countries.assertAllMatched(`WHO (${filePath})`);
+  return records;
 }
 
+const WHO_UHC_IMPORT: FileImport<WHOUHCRecord> = {
+  label: 'WHO UHC',
+  pattern: DOWNLOAD_PATTERN,
+  parse: parseWHOUHCDownload,
+  key: record => `${record.iso3}:${record.year}`,
+  embedded: () => Object.entries(WHO_UHC_2021).map(([iso3, value]) => ({ iso3, year: 2021, value })),
+};
+
+// Transform to our format
+function transformWHOUHCData(data: ImportedData<WHOUHCRecord>): ProcessedDataPoint[] {
+  return data.records.map(record => ({
+    countryIso3: record.iso3,
+    sourceId: 'who_uhc_index',
+    year: record.year,
+    value: record.value,
+  }));
+}
+
+const plugin: SourcePlugin<ImportedData<WHOUHCRecord>> = {
+  id: 'who-uhc',
+  rawFile: 'who-uhc.json',
+  metadata: {
+    name: 'WHO UHC Service Coverage Index',
+    url: 'https://data.who.int/indicators/i/3805B1E',
+    license: 'CC BY-NC-SA 3.0 IGO',
+    year: 2021,
+  },
+  normalization: {
+    who_uhc_index: { inputRange: [0, 100], invert: false },
+  },
+  fetch: options => importSourceFiles(WHO_UHC_IMPORT, options),
+  transform: transformWHOUHCData,
+  rawSchema: importedDataSchema({ value: { type: 'number' } }),
+};
+
 async function main() {
+  console.log('='.repeat(60));
+  console.log('WHO UHC Service Coverage Index');
+  console.log('='.repeat(60));
+
   console.log('\nSource: WHO Global Health Observatory');
   console.log('Indicator: UHC Service Coverage Index (SDG 3.8.1)');
-  console.log('Year: 2021 (most recent comprehensive dataset)');
   console.log('Scale: 0-100 (higher = better coverage)');
   console.log('License: CC BY-NC-SA 3.0 IGO\n');
 
-  saveWHOUHCData();
+  const { points } = await runSourcePlugin(plugin, { file: getArgValue(process.argv.slice(2), '--file') });
+
+  // Print summary
+  const latestYear = Math.max(...points.map(p => p.year));
+  console.log(`\nTop 10 by UHC Index (${latestYear}):`);
+  const sorted = points.filter(p => p.year === latestYear).sort((a, b) => b.value - a.value);
+  for (let i = 0; i < Math.min(10, sorted.length); i++) {
+    console.log(`  ${i + 1}. ${sorted[i].countryIso3}: ${sorted[i].value}`);
+  }
+
+  console.log('\nBottom 10:');
+  for (let i = Math.max(0, sorted.length - 10); i < sorted.length; i++) {
+    console.log(`  ${sorted.length - (sorted.length - i - 1)}. ${sorted[i].countryIso3}: ${sorted[i].value}`);
+  }
 }
 
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
 }
 
-export { WHO_UHC_2021, saveWHOUHCData };
+export { WHO_UHC_2021, WHOUHCRecord, parseWHOUHCDownload, transformWHOUHCData, plugin };
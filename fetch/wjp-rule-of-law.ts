@@ -0,0 +1,193 @@
+#!/usr/bin/env npx tsx
+/**
+ * World Justice Project (WJP) Rule of Law Index
+ *
+ * Source: https://worldjusticeproject.org/rule-of-law-index/
+ * Data: https://worldjusticeproject.org/rule-of-law-index/downloads
+ *
+ * Scores range from 0 to 1 (higher = stronger rule of law). Besides the
+ * overall score, three factors are imported as fields of
+ * wjp_rule_of_law:
+ *
+ *   fundamental_rights  Factor 4: Fundamental Rights
+ *   civil_justice       Factor 7: Civil Justice
+ *   criminal_justice    Factor 8: Criminal Justice
+ *
+ * Imports the historical data file (one row per country and edition,
+ * sheet "Historical Data") saved in data/raw as wjp*.xlsx / .csv, or
+ * --file <path>. There is no built-in table; without the download the
+ * source is skipped.
+ *
+ * License: CC BY-NC-ND 4.0
+ */
+
+import { ProcessedDataPoint } from '../data-loader';
+import { SourcePlugin, ImportedData, runSourcePlugin } from './plugin';
+import { FileImport, TableRow, findDownloads, importedDataSchema, importSourceFiles, parseNumber, readTable } from './import';
+import { createCountryResolver } from '../country-codes';
+import { getArgValue } from '../cli';
+
+// WJP downloads saved in data/raw, e.g.
+// 2024_wjp_rule_of_law_index_HISTORICAL_DATA_FILE.xlsx
+const DOWNLOAD_PATTERN = /wjp.*\.(xlsx|csv)$/i;
+
+// Field -> start of its column name in the download
+const WJP_FACTORS: Record<string, string> = {
+  fundamental_rights: 'factor 4',
+  civil_justice: 'factor 7',
+  criminal_justice: 'factor 8',
+};
+
+interface WJPRecord {
+  iso3: string;
+  year: number;
+  overall?: number;
+  // Factor scores keyed by field (see WJP_FACTORS)
+  factors: Record<string, number>;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Column whose name starts with `prefix` (WJP column names include the
+ * factor title, e.g. "Factor 7: Civil Justice").
+ */
+function findColumn(row: TableRow, prefix: string): string | undefined {
+  return Object.keys(row).find(name => name.startsWith(prefix));
+}
+
+/**
+ * Parse the historical data file. Editions covering two years
+ * ("2017-2018") are dated by the later year.
+ */
+function parseWJPDownload(filePath: string): WJPRecord[] {
+  const rows = readTable(filePath, [['Country', 'Country Code'], 'Year'], /historical/i);
+  const countries = createCountryResolver();
+  const records: WJPRecord[] = [];
+
+  // Column of the overall score and of each factor
+  const first = rows[0] || {};
+  const columns: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const [key, prefix] of Object.entries({ overall: 'wjp rule of law index', ...WJP_FACTORS })) {
+    const column = findColumn(first, prefix);
+    if (column) columns[key] = column;
+    else missing.push(prefix);
+  }
+  if (missing.length > 0) {
+    throw new Error(`Missing WJP columns ${missing.join(', ')} in ${filePath}`);
+  }
+
+  for (const row of rows) {
+    const iso3 = countries.resolve(row['country code'], row['country']);
+    const year = Number(row['year'].match(/(\d{4})\s*$/)?.[1]);
+    if (!iso3 || !year) continue;
+
+    const overall = parseNumber(row[columns.overall]);
+    const factors: Record<string, number> = {};
+    for (const field of Object.keys(WJP_FACTORS)) {
+      const value = parseNumber(row[columns[field]]);
+      if (Number.isFinite(value)) factors[field] = value;
+    }
+
+    if (!Number.isFinite(overall) && Object.keys(factors).length === 0) continue;
+    records.push({ iso3, year, ...(Number.isFinite(overall) ? { overall } : {}), factors });
+  }
+
+  countries.assertAllMatched(`WJP (${filePath})`);
+  return records;
+}
+
+const WJP_IMPORT: FileImport<WJPRecord> = {
+  label: 'WJP',
+  pattern: DOWNLOAD_PATTERN,
+  parse: parseWJPDownload,
+  key: record => `${record.iso3}:${record.year}`,
+};
+
+// Transform to our format: the overall score without a field, each
+// factor as a field of wjp_rule_of_law
+function transformWJPData(data: ImportedData<WJPRecord>): ProcessedDataPoint[] {
+  const processed: ProcessedDataPoint[] = [];
+
+  for (const record of data.records) {
+    if (record.overall !== undefined) {
+      processed.push({
+        countryIso3: record.iso3,
+        sourceId: 'wjp_rule_of_law',
+        year: record.year,
+        value: record.overall,
+      });
+    }
+
+    for (const [field, value] of Object.entries(record.factors)) {
+      processed.push({
+        countryIso3: record.iso3,
+        sourceId: 'wjp_rule_of_law',
+        field,
+        year: record.year,
+        value,
+      });
+    }
+  }
+
+  return processed;
+}
+
+const plugin: SourcePlugin<ImportedData<WJPRecord>> = {
+  id: 'wjp-rule-of-law',
+  rawFile: 'wjp-rule-of-law.json',
+  // Needs a manual download
+  required: false,
+  metadata: {
+    name: 'World Justice Project Rule of Law Index',
+    url: 'https://worldjusticeproject.org/rule-of-law-index/',
+    license: 'CC BY-NC-ND 4.0',
+    year: 2024,
+  },
+  normalization: {
+    wjp_rule_of_law: { inputRange: [0, 1], invert: false },
+  },
+  fetch: options => importSourceFiles(WJP_IMPORT, options),
+  transform: transformWJPData,
+  rawSchema: importedDataSchema({
+    overall: { type: 'number' },
+    factors: { type: 'record', values: { type: 'number' } },
+  }, ['overall']),
+};
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('World Justice Project Rule of Law Index');
+  console.log('='.repeat(60));
+
+  const file = getArgValue(process.argv.slice(2), '--file');
+  if (!file && findDownloads(DOWNLOAD_PATTERN).length === 0) {
+    console.log('\nDownload the historical data file (Excel) from:');
+    console.log('https://worldjusticeproject.org/rule-of-law-index/downloads');
+    console.log('and save it in data/raw');
+  }
+  console.log('');
+
+  const { points } = await runSourcePlugin(plugin, { file });
+
+  // Print summary
+  const civil = points.filter(p => p.field === 'civil_justice');
+  const latestYear = Math.max(...civil.map(p => p.year));
+  const sorted = civil.filter(p => p.year === latestYear).sort((a, b) => b.value - a.value);
+  console.log(`\nTop 10 by Civil Justice (${latestYear}):`);
+  for (let i = 0; i < Math.min(10, sorted.length); i++) {
+    console.log(`  ${i + 1}. ${sorted[i].countryIso3}: ${sorted[i].value}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+
+export { WJPRecord, parseWJPDownload, transformWJPData, plugin };
@@ -6,15 +6,28 @@
  * - GINI Index (SI.POV.GINI)
  * - Voice and Accountability (VA.EST)
  * - Government Effectiveness (GE.EST)
+ * - Control of Corruption (CC.EST)
+ * - Rule of Law (RL.EST)
+ * - Regulatory Quality (RQ.EST)
+ * - Population living in slums, % of urban population (EN.POP.SLUM.UR.ZS;
+ *   UN-Habitat estimates, mostly for low and middle income countries)
  *
  * API Documentation: https://datahelpdesk.worldbank.org/knowledgebase/articles/889392
+ *
+ * Responses are cached under data/raw/cache for 12 hours (see http.ts),
+ * so re-runs the same day don't download them again.
+ *
+ * Options:
+ *   --refresh  Ignore the cache and download everything again
+ *   --offline  Use only cached responses
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
+import { FetchOptions, fetchJson, getCacheMode } from './http';
+import { SourcePlugin, runSourcePlugin } from './plugin';
+import { Schema } from '../validation';
 
-const DATA_DIR = path.join(__dirname, '../data/raw');
 const BASE_URL = 'https://api.worldbank.org/v2';
+const PER_PAGE = 500;
 
 interface WorldBankResponse {
   page: number;
@@ -44,82 +57,107 @@ const INDICATORS = {
   'CC.EST': 'Control of Corruption: Estimate',
   'RL.EST': 'Rule of Law: Estimate',
   'RQ.EST': 'Regulatory Quality: Estimate',
+  'EN.POP.SLUM.UR.ZS': 'Population living in slums (% of urban population)',
 };
 
-async function fetchIndicator(indicatorCode: string, year: number = 2023): Promise<WorldBankDataPoint[]> {
-  const url = `${BASE_URL}/country/all/indicator/${indicatorCode}?format=json&date=${year - 5}:${year}&per_page=500`;
+async function fetchIndicator(
+  indicatorCode: string,
+  year: number = 2023,
+  options: FetchOptions = {}
+): Promise<WorldBankDataPoint[]> {
+  const url = `${BASE_URL}/country/all/indicator/${indicatorCode}?format=json&date=${year - 5}:${year}&per_page=${PER_PAGE}`;
 
   console.log(`Fetching ${indicatorCode}...`);
 
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch ${indicatorCode}: ${response.statusText}`);
-  }
+  const dataPoints: WorldBankDataPoint[] = [];
+
+  for (let page = 1, pages = 1; page <= pages; page++) {
+    const data = await fetchJson<[WorldBankResponse, WorldBankDataPoint[] | null]>(`${url}&page=${page}`, options);
 
-  const data = await response.json();
+    // World Bank returns [metadata, data[]]
+    if (!Array.isArray(data) || data.length < 2) {
+      console.warn(`No data for ${indicatorCode}`);
+      return dataPoints;
+    }
 
-  // World Bank returns [metadata, data[]]
-  if (!Array.isArray(data) || data.length < 2) {
-    console.warn(`No data for ${indicatorCode}`);
-    return [];
+    pages = data[0].pages;
+    dataPoints.push(...(data[1] || []));
   }
 
-  return data[1] || [];
+  return dataPoints;
 }
 
-function getLatestValue(dataPoints: WorldBankDataPoint[]): Map<string, { value: number; year: number }> {
-  const latestByCountry = new Map<string, { value: number; year: number }>();
+type IndicatorSeries = Record<string, { value: number; year: number }[]>;
+
+const VALUE_SCHEMA: Schema = {
+  type: 'object',
+  properties: { value: { type: 'number' }, year: { type: 'number', integer: true } },
+};
+
+// Indicator -> country -> values (older raw files hold a single value)
+const RAW_SCHEMA: Schema = {
+  type: 'record',
+  values: {
+    type: 'record',
+    values: { type: 'anyOf', schemas: [{ type: 'array', items: VALUE_SCHEMA }, VALUE_SCHEMA] },
+  },
+};
+
+function getValuesByCountry(dataPoints: WorldBankDataPoint[]): Map<string, { value: number; year: number }[]> {
+  const valuesByCountry = new Map<string, { value: number; year: number }[]>();
 
   for (const point of dataPoints) {
     if (point.value === null || !point.countryiso3code) continue;
 
-    const year = parseInt(point.date);
-    const existing = latestByCountry.get(point.countryiso3code);
-
-    if (!existing || year > existing.year) {
-      latestByCountry.set(point.countryiso3code, {
-        value: point.value,
-        year: year,
-      });
+    if (!valuesByCountry.has(point.countryiso3code)) {
+      valuesByCountry.set(point.countryiso3code, []);
     }
+    valuesByCountry.get(point.countryiso3code)!.push({
+      value: point.value,
+      year: parseInt(point.date),
+    });
   }
 
-  return latestByCountry;
-}
+  // Oldest first
+  for (const values of valuesByCountry.values()) {
+    values.sort((a, b) => a.year - b.year);
+  }
 
-async function fetchAllIndicators() {
-  console.log('='.repeat(60));
-  console.log('World Bank Data Fetcher');
-  console.log('='.repeat(60));
+  return valuesByCountry;
+}
 
-  const results: Record<string, Record<string, { value: number; year: number }>> = {};
+async function fetchAllIndicators(options: FetchOptions = {}): Promise<Record<string, IndicatorSeries>> {
+  const results: Record<string, IndicatorSeries> = {};
+  const failed: string[] = [];
 
   for (const [code, name] of Object.entries(INDICATORS)) {
     try {
-      const data = await fetchIndicator(code);
-      const latest = getLatestValue(data);
+      const data = await fetchIndicator(code, 2023, options);
+      const values = getValuesByCountry(data);
 
-      results[code] = Object.fromEntries(latest);
-      console.log(`  ${name}: ${latest.size} countries`);
+      results[code] = Object.fromEntries(values);
+      console.log(`  ${name}: ${values.size} countries`);
 
       // Rate limiting - be nice to the API
       await new Promise(resolve => setTimeout(resolve, 500));
     } catch (error) {
       console.error(`Error fetching ${code}:`, error);
+      failed.push(code);
     }
   }
 
-  // Save to file
-  const outputPath = path.join(DATA_DIR, 'world-bank.json');
-  fs.mkdirSync(DATA_DIR, { recursive: true });
-  fs.writeFileSync(outputPath, JSON.stringify(results, null, 2));
+  // Don't save a partial download over the previous data
+  if (failed.length > 0) {
+    throw new Error(`Failed to fetch World Bank indicators: ${failed.join(', ')}`);
+  }
 
-  console.log(`\nSaved to ${outputPath}`);
   return results;
 }
 
-// Transform to our format
-function transformToFairnessFormat(worldBankData: Record<string, Record<string, { value: number; year: number }>>) {
+// Transform to our format (one data point per country, indicator and year)
+function transformToFairnessFormat(
+  worldBankData: Record<string, Record<string, { value: number; year: number }[] | { value: number; year: number }>>
+) {
   const countries = new Set<string>();
 
   for (const indicator of Object.values(worldBankData)) {
@@ -130,6 +168,17 @@ function transformToFairnessFormat(worldBankData: Record<string, Record<string,
     }
   }
 
+  // Indicator -> our source ID
+  const sourceIds: Record<string, string> = {
+    'SI.POV.GINI': 'world_bank_gini',
+    'VA.EST': 'wgi_voice',
+    'GE.EST': 'wgi_effectiveness',
+    'CC.EST': 'wgi_corruption',
+    'RL.EST': 'wgi_rule_of_law',
+    'RQ.EST': 'wgi_regulatory_quality',
+    'EN.POP.SLUM.UR.ZS': 'world_bank_slums',
+  };
+
   const output: Array<{
     countryIso3: string;
     sourceId: string;
@@ -139,66 +188,61 @@ function transformToFairnessFormat(worldBankData: Record<string, Record<string,
   }> = [];
 
   for (const iso3 of countries) {
-    // GINI
-    const gini = worldBankData['SI.POV.GINI']?.[iso3];
-    if (gini) {
-      output.push({
-        countryIso3: iso3,
-        sourceId: 'world_bank_gini',
-        year: gini.year,
-        value: gini.value,
-      });
-    }
-
-    // Voice and Accountability -> wgi_voice
-    const voice = worldBankData['VA.EST']?.[iso3];
-    if (voice) {
-      output.push({
-        countryIso3: iso3,
-        sourceId: 'wgi_voice',
-        year: voice.year,
-        value: voice.value,
-      });
-    }
-
-    // Government Effectiveness -> wgi_effectiveness
-    const effectiveness = worldBankData['GE.EST']?.[iso3];
-    if (effectiveness) {
-      output.push({
-        countryIso3: iso3,
-        sourceId: 'wgi_effectiveness',
-        year: effectiveness.year,
-        value: effectiveness.value,
-      });
-    }
-
-    // Control of Corruption -> ti_cpi (proxy)
-    const corruption = worldBankData['CC.EST']?.[iso3];
-    if (corruption) {
-      output.push({
-        countryIso3: iso3,
-        sourceId: 'wgi_corruption',
-        year: corruption.year,
-        value: corruption.value,
-      });
+    for (const [code, sourceId] of Object.entries(sourceIds)) {
+      const values = worldBankData[code]?.[iso3];
+      if (!values) continue;
+
+      // Older raw files hold only the latest value per country
+      for (const { value, year } of Array.isArray(values) ? values : [values]) {
+        output.push({
+          countryIso3: iso3,
+          sourceId,
+          year,
+          value,
+        });
+      }
     }
   }
 
   return output;
 }
 
+const plugin: SourcePlugin<Record<string, IndicatorSeries>> = {
+  id: 'world-bank',
+  rawFile: 'world-bank.json',
+  metadata: {
+    name: 'World Bank GINI Index, Worldwide Governance Indicators and urban slum population',
+    url: 'https://data.worldbank.org',
+    license: 'CC BY 4.0',
+    year: 2023,
+  },
+  normalization: {
+    world_bank_gini: { inputRange: [20, 65], invert: true },
+    wgi_voice: { inputRange: [-2.5, 2.5], invert: false },
+    wgi_effectiveness: { inputRange: [-2.5, 2.5], invert: false },
+    wgi_corruption: { inputRange: [-2.5, 2.5], invert: false },
+    wgi_rule_of_law: { inputRange: [-2.5, 2.5], invert: false },
+    wgi_regulatory_quality: { inputRange: [-2.5, 2.5], invert: false },
+    world_bank_slums: { inputRange: [0, 100], invert: true },
+  },
+  fetch: fetchAllIndicators,
+  transform: transformToFairnessFormat,
+  rawSchema: RAW_SCHEMA,
+};
+
 async function main() {
-  const data = await fetchAllIndicators();
+  console.log('='.repeat(60));
+  console.log('World Bank Data Fetcher');
+  console.log('='.repeat(60));
 
-  // Transform and save processed data
-  const processed = transformToFairnessFormat(data);
-  const processedPath = path.join(__dirname, '../data/processed/world-bank.json');
-  fs.writeFileSync(processedPath, JSON.stringify(processed, null, 2));
-  console.log(`\nProcessed ${processed.length} data points to ${processedPath}`);
+  await runSourcePlugin(plugin, { cacheMode: getCacheMode(process.argv.slice(2)) });
 }
 
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
 }
 
-export { fetchAllIndicators, transformToFairnessFormat };
+export { fetchAllIndicators, transformToFairnessFormat, plugin };
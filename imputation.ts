@@ -0,0 +1,288 @@
+/**
+ * Missing Dimension Imputation
+ *
+ * When a country has neither source data nor a documented exception for a
+ * dimension, the scoring engine leaves a placeholder. This pass runs after
+ * every country has been calculated and replaces each placeholder using the
+ * selected strategy, flagging the value with the method that produced it.
+ *
+ * Strategies:
+ *   subregion-mean  Mean of countries in the same subregion (falls back to region)
+ *   region-mean     Mean of countries in the same region
+ *   regression      Multiple linear regression on the country's other dimensions
+ *   gdp-neighbours  Mean of the 5 nearest countries by GDP per capita
+ *   exclude         Leave the dimension out and reweight the others
+ *   constant        Fixed value of 50 (legacy behaviour)
+ *
+ * If the selected strategy cannot produce a value (e.g. no peers with data),
+ * region-mean is tried next, then constant.
+ */
+
+import {
+  CountryCalculation,
+  DimensionScore,
+  DIMENSION_WEIGHTS,
+  MISSING_DIMENSION_SCORE,
+  calculateFairnessScore,
+  calculateOverallConfidence,
+  isMissingDimension,
+} from './scoring';
+import { COUNTRY_METADATA } from './countries';
+
+// ============================================
+// TYPES
+// ============================================
+
+// `basedOn` lists the peer countries (or, for regression, the predictor
+// dimensions) that produced the value
+export type ImputedValue =
+  | { score: number; basedOn: string[] }
+  | { excluded: true };
+
+export interface ImputationContext {
+  country: CountryCalculation;
+  dimension: string;
+  // Countries whose score for this dimension is backed by source data
+  observed: CountryCalculation[];
+}
+
+export interface ImputationStrategy {
+  id: string;
+  description: string;
+  impute(context: ImputationContext): ImputedValue | null;
+}
+
+// Strategy used when none is selected
+export const DEFAULT_IMPUTATION_STRATEGY = 'subregion-mean';
+
+const NEAREST_NEIGHBOURS = 5;
+const MIN_REGRESSION_SAMPLES = 3;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function hasSourceData(dimensionScore: DimensionScore | undefined): boolean {
+  return !!dimensionScore && dimensionScore.sources.length > 0;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function clampScore(value: number): number {
+  return Math.round(Math.max(0, Math.min(100, value)));
+}
+
+function peerMean(peers: CountryCalculation[], dimension: string): ImputedValue | null {
+  if (peers.length === 0) return null;
+
+  return {
+    score: clampScore(mean(peers.map(p => p.dimensions[dimension].score))),
+    basedOn: peers.map(p => p.iso3),
+  };
+}
+
+/**
+ * A country's other dimensions that are backed by source data.
+ */
+function otherObservedDimensions(country: CountryCalculation, dimension: string): string[] {
+  return Object.entries(country.dimensions)
+    .filter(([dim, data]) => dim !== dimension && hasSourceData(data))
+    .map(([dim]) => dim);
+}
+
+/**
+ * Solve the linear system `a * x = b` by Gaussian elimination with partial
+ * pivoting. Returns null when the system is (nearly) singular, e.g. when
+ * two predictors are collinear.
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-9) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+// ============================================
+// STRATEGIES
+// ============================================
+
+const regionMean: ImputationStrategy = {
+  id: 'region-mean',
+  description: 'Mean of countries in the same region',
+  impute: ({ country, dimension, observed }) =>
+    peerMean(observed.filter(c => c.region === country.region), dimension),
+};
+
+const subregionMean: ImputationStrategy = {
+  id: 'subregion-mean',
+  description: 'Mean of countries in the same subregion, falling back to the region',
+  impute: (context) =>
+    peerMean(
+      context.observed.filter(c =>
+        c.region === context.country.region && c.subregion === context.country.subregion
+      ),
+      context.dimension
+    ) ?? regionMean.impute(context),
+};
+
+const regression: ImputationStrategy = {
+  id: 'regression',
+  description: 'Multiple linear regression on the country\'s other dimensions',
+  impute: ({ country, dimension, observed }) => {
+    // Predictors: the country's other dimensions with source data. Only
+    // peers with source data for all of them are used to fit the model
+    const predictors = otherObservedDimensions(country, dimension);
+    if (predictors.length === 0) return null;
+
+    const samples = observed
+      .filter(c => predictors.every(dim => hasSourceData(c.dimensions[dim])))
+      .map(c => ({ x: [1, ...predictors.map(dim => c.dimensions[dim].score)], y: c.dimensions[dimension].score }));
+
+    // At least one more sample than coefficients (intercept + predictors)
+    if (samples.length < Math.max(MIN_REGRESSION_SAMPLES, predictors.length + 2)) return null;
+
+    // Ordinary least squares via the normal equations: (X'X) b = X'y
+    const size = predictors.length + 1;
+    const xtx = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    const xty = new Array<number>(size).fill(0);
+    for (const s of samples) {
+      for (let i = 0; i < size; i++) {
+        xty[i] += s.x[i] * s.y;
+        for (let j = 0; j < size; j++) xtx[i][j] += s.x[i] * s.x[j];
+      }
+    }
+    const coefficients = solveLinearSystem(xtx, xty);
+    if (!coefficients) return null;
+
+    const x = [1, ...predictors.map(dim => country.dimensions[dim].score)];
+    return {
+      score: clampScore(x.reduce((sum, value, i) => sum + value * coefficients[i], 0)),
+      basedOn: predictors,
+    };
+  },
+};
+
+const gdpNeighbours: ImputationStrategy = {
+  id: 'gdp-neighbours',
+  description: `Mean of the ${NEAREST_NEIGHBOURS} nearest countries by GDP per capita`,
+  impute: ({ country, dimension, observed }) => {
+    const gdp = COUNTRY_METADATA[country.iso3]?.gdpPerCapita;
+    if (!gdp || gdp <= 0) return null;
+
+    // Compare on a log scale so distance reflects relative income differences
+    const neighbours = observed
+      .filter(c => (COUNTRY_METADATA[c.iso3]?.gdpPerCapita || 0) > 0)
+      .map(c => ({
+        country: c,
+        distance: Math.abs(Math.log(COUNTRY_METADATA[c.iso3].gdpPerCapita) - Math.log(gdp)),
+      }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, NEAREST_NEIGHBOURS)
+      .map(n => n.country);
+
+    return peerMean(neighbours, dimension);
+  },
+};
+
+const exclude: ImputationStrategy = {
+  id: 'exclude',
+  description: 'Exclude the dimension and reweight the remaining dimensions',
+  impute: () => ({ excluded: true }),
+};
+
+const constant: ImputationStrategy = {
+  id: 'constant',
+  description: `Fixed value of ${MISSING_DIMENSION_SCORE}`,
+  impute: () => ({ score: MISSING_DIMENSION_SCORE, basedOn: [] }),
+};
+
+export const IMPUTATION_STRATEGIES: Record<string, ImputationStrategy> = {
+  [subregionMean.id]: subregionMean,
+  [regionMean.id]: regionMean,
+  [regression.id]: regression,
+  [gdpNeighbours.id]: gdpNeighbours,
+  [exclude.id]: exclude,
+  [constant.id]: constant,
+};
+
+export function getImputationStrategy(id: string): ImputationStrategy {
+  const strategy = IMPUTATION_STRATEGIES[id];
+  if (!strategy) {
+    throw new Error(
+      `Unknown imputation strategy "${id}". Available: ${Object.keys(IMPUTATION_STRATEGIES).join(', ')}`
+    );
+  }
+  return strategy;
+}
+
+// ============================================
+// IMPUTATION PASS
+// ============================================
+
+/**
+ * Replace every missing dimension in `calculations` using `strategyId`, then
+ * recompute the affected fairness scores and confidence. Returns the number
+ * of imputed dimensions. Peers are always taken from the source-backed
+ * scores, so imputed values never feed into other imputations.
+ */
+export function imputeMissingDimensions(
+  calculations: CountryCalculation[],
+  strategyId: string = DEFAULT_IMPUTATION_STRATEGY
+): number {
+  const chain = [getImputationStrategy(strategyId), regionMean, constant]
+    .filter((strategy, index, all) => all.indexOf(strategy) === index);
+
+  const missing: { country: CountryCalculation; dimension: string }[] = [];
+  for (const country of calculations) {
+    for (const [dimension, data] of Object.entries(country.dimensions)) {
+      if (isMissingDimension(data)) missing.push({ country, dimension });
+    }
+  }
+
+  const updates = missing.map(({ country, dimension }) => {
+    const observed = calculations.filter(c => c !== country && hasSourceData(c.dimensions[dimension]));
+
+    for (const strategy of chain) {
+      const result = strategy.impute({ country, dimension, observed });
+      if (result) return { country, dimension, method: strategy.id, result };
+    }
+    throw new Error(`No imputation for ${country.iso3} ${dimension}`);
+  });
+
+  // Apply after all values are computed so results don't depend on order
+  for (const { country, dimension, method, result } of updates) {
+    country.dimensions[dimension] = 'excluded' in result
+      ? { score: MISSING_DIMENSION_SCORE, sources: [], confidence: 'low', excluded: true, imputed: { method, basedOn: [] } }
+      : { score: result.score, sources: [], confidence: 'low', imputed: { method, basedOn: result.basedOn } };
+    country.metadata.estimatedFields++;
+  }
+
+  for (const country of new Set(updates.map(u => u.country))) {
+    country.fairnessScore = calculateFairnessScore(country.dimensions, DIMENSION_WEIGHTS, country.metadata.aggregation);
+    country.metadata.confidence = calculateOverallConfidence(country.dimensions);
+  }
+
+  return updates.length;
+}
@@ -0,0 +1,374 @@
+/**
+ * Methodology Loader
+ *
+ * The scoring methodology (sources and their normalization, dimension
+ * weights and dimension -> source mappings) is defined in a versioned JSON
+ * file rather than in code. methodology.json holds the published
+ * methodology; alternatives can be run with `--methodology <file>` on any
+ * of the scripts.
+ *
+ * File format:
+ *
+ *   {
+ *     "version": "1.0.0",
+ *     "name": "World Fairness Score",
+ *     "sources": {
+ *       "<sourceId>": { "name", "url", "inputRange": [min, max], "invert",
+ *                       "normalization"?, "rangeTolerance"?, "maxAge"?,
+ *                       "staleWeight"?,
+ *                       "fields"?: { "<field>": { "inputRange"?, "invert"?,
+ *                                                 "normalization"? } },
+ *                       "notes"? }
+ *     },
+ *     "dimensions": {
+ *       "<dimension>": { "weight", "sources": [{ "sourceId", "weight", "field"? }],
+ *                        "notes"? }
+ *     }
+ *   }
+ *
+ * Processed values outside `inputRange` are invalid (see validation.ts),
+ * unless they overshoot it by at most `rangeTolerance` (a fraction of the
+ * range's width, default 0), e.g. a published score slightly above the
+ * documented maximum; those are clamped when scored.
+ *
+ * Values more than `maxAge` years older than the latest data year are
+ * stale. Stale values are flagged in the output and their source weight is
+ * multiplied by `staleWeight` (default 1, i.e. no penalty; 0 drops them).
+ *
+ * A mapping with a `field` uses only the data points of that source with
+ * the same field (e.g. one factor of an index), so one source can be
+ * mapped several times with different fields. Its normalization is the
+ * source's, with any settings given under the source's `fields` for that
+ * field (e.g. the range of a subcategory score) taking precedence.
+ *
+ * Dimension weights and the source weights within each dimension must each
+ * sum to 1. The hash recorded in the output is the SHA-256 of the parsed
+ * file, so formatting changes don't change it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+export const DEFAULT_METHODOLOGY_PATH = path.join(__dirname, 'methodology.json');
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * How a source's raw values are mapped to 0-100:
+ *
+ *   linear      Min-max over `inputRange`, clamping values outside it (default)
+ *   log         Min-max over the logarithm of `inputRange`, for skewed
+ *               positive values; clamps like linear
+ *   zscore      Standard score across countries, squashed with the
+ *               logistic function (mean maps to 50)
+ *   percentile  Percentile rank across countries
+ *   goalpost    Min-max over the lowest and highest value observed across
+ *               all countries and years, so scores stay comparable over time
+ */
+export type NormalizationMode = 'linear' | 'log' | 'zscore' | 'percentile' | 'goalpost';
+
+export const NORMALIZATION_MODES: NormalizationMode[] = ['linear', 'log', 'zscore', 'percentile', 'goalpost'];
+
+export interface SourceConfig {
+  id: string;
+  name: string;
+  url: string;
+  inputRange: [number, number];
+  invert: boolean;
+  normalization?: NormalizationMode;
+  // Allowed overshoot of inputRange, as a fraction of its width
+  rangeTolerance?: number;
+  // Age in years after which a value is stale
+  maxAge?: number;
+  // Weight multiplier for stale values (0-1)
+  staleWeight?: number;
+  // Normalization settings of individual fields, overriding the above
+  fields?: Record<string, FieldConfig>;
+}
+
+export type FieldConfig = Partial<Pick<SourceConfig, 'inputRange' | 'invert' | 'normalization'>>;
+
+export interface DimensionMapping {
+  dimension: string;
+  sources: {
+    sourceId: string;
+    weight: number;
+    field?: string;
+  }[];
+}
+
+export interface Methodology {
+  version: string;
+  name: string;
+  // SHA-256 of the parsed methodology file
+  hash: string;
+  dimensionWeights: Record<string, number>;
+  sourceConfigs: Record<string, SourceConfig>;
+  dimensionMappings: DimensionMapping[];
+}
+
+// Allowed difference from 1 when checking that weights sum to 1
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+// Settings a source's `fields` entries can override
+const FIELD_SETTINGS = ['inputRange', 'invert', 'normalization'];
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function checkWeightSum(weights: number[], label: string, errors: string[]) {
+  const sum = weights.reduce((total, w) => total + w, 0);
+  if (Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+    errors.push(`${label} sum to ${sum.toFixed(3)}, not 1`);
+  }
+}
+
+/**
+ * Check the normalization settings (inputRange, invert, normalization) of
+ * a source, or of a field with its source's settings filled in.
+ */
+function validateNormalization(source: Record<string, unknown>, label: string, errors: string[]) {
+  const range = source.inputRange;
+  if (!Array.isArray(range) || range.length !== 2 || !range.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    errors.push(`${label}.inputRange must be [min, max]`);
+  } else if (range[0] >= range[1]) {
+    errors.push(`${label}.inputRange min must be below max`);
+  } else if (source.normalization === 'log' && range[0] <= 0) {
+    errors.push(`${label}.inputRange must be positive for log normalization`);
+  }
+
+  if (typeof source.invert !== 'boolean') {
+    errors.push(`${label}.invert must be true or false`);
+  }
+
+  if (source.normalization !== undefined && !NORMALIZATION_MODES.includes(source.normalization as NormalizationMode)) {
+    errors.push(`${label}.normalization must be one of ${NORMALIZATION_MODES.join(', ')}`);
+  }
+}
+
+function validateSource(id: string, source: unknown, errors: string[]) {
+  const label = `sources.${id}`;
+  if (!isRecord(source)) {
+    errors.push(`${label} must be an object`);
+    return;
+  }
+
+  for (const field of ['name', 'url']) {
+    if (typeof source[field] !== 'string' || source[field] === '') {
+      errors.push(`${label}.${field} must be a non-empty string`);
+    }
+  }
+
+  validateNormalization(source, label, errors);
+
+  if (source.fields !== undefined) {
+    if (!isRecord(source.fields)) {
+      errors.push(`${label}.fields must be an object`);
+    } else {
+      for (const [field, settings] of Object.entries(source.fields)) {
+        const fieldLabel = `${label}.fields.${field}`;
+        if (!isRecord(settings)) {
+          errors.push(`${fieldLabel} must be an object`);
+          continue;
+        }
+        const unknown = Object.keys(settings).filter(key => !FIELD_SETTINGS.includes(key));
+        if (unknown.length > 0) {
+          errors.push(`${fieldLabel} can only set ${FIELD_SETTINGS.join(', ')} (not ${unknown.join(', ')})`);
+        }
+        validateNormalization({ ...source, ...settings }, fieldLabel, errors);
+      }
+    }
+  }
+
+  if (source.rangeTolerance !== undefined && !(typeof source.rangeTolerance === 'number' && source.rangeTolerance >= 0 && source.rangeTolerance <= 1)) {
+    errors.push(`${label}.rangeTolerance must be between 0 and 1`);
+  }
+
+  if (source.maxAge !== undefined && !(Number.isInteger(source.maxAge) && (source.maxAge as number) >= 0)) {
+    errors.push(`${label}.maxAge must be a whole number of years`);
+  }
+
+  if (source.staleWeight !== undefined) {
+    const weight = source.staleWeight;
+    if (typeof weight !== 'number' || !(weight >= 0 && weight <= 1)) {
+      errors.push(`${label}.staleWeight must be between 0 and 1`);
+    } else if (source.maxAge === undefined) {
+      errors.push(`${label}.staleWeight requires maxAge`);
+    }
+  }
+}
+
+function validateDimension(id: string, dimension: unknown, sourceIds: string[], errors: string[]) {
+  const label = `dimensions.${id}`;
+  if (!isRecord(dimension)) {
+    errors.push(`${label} must be an object`);
+    return;
+  }
+
+  if (!isPositiveNumber(dimension.weight)) {
+    errors.push(`${label}.weight must be a positive number`);
+  }
+
+  if (!Array.isArray(dimension.sources) || dimension.sources.length === 0) {
+    errors.push(`${label}.sources must be a non-empty array`);
+    return;
+  }
+
+  // Mapped measures, as `sourceKey(sourceId, field)`
+  const mapped = new Set<string>();
+
+  dimension.sources.forEach((source: unknown, index: number) => {
+    const sourceLabel = `${label}.sources[${index}]`;
+    if (!isRecord(source)) {
+      errors.push(`${sourceLabel} must be an object`);
+      return;
+    }
+    if (typeof source.sourceId !== 'string' || !sourceIds.includes(source.sourceId)) {
+      errors.push(`${sourceLabel}.sourceId "${source.sourceId}" is not defined in sources`);
+    }
+    if (!isPositiveNumber(source.weight)) {
+      errors.push(`${sourceLabel}.weight must be a positive number`);
+    }
+    if (source.field !== undefined && (typeof source.field !== 'string' || source.field === '')) {
+      errors.push(`${sourceLabel}.field must be a non-empty string`);
+    }
+
+    // A source may be mapped more than once only with different fields
+    const key = `${source.sourceId}${typeof source.field === 'string' && source.field ? '_' + source.field : ''}`;
+    if (mapped.has(key)) {
+      errors.push(`${sourceLabel} maps ${source.sourceId}${source.field ? ` (field "${source.field}")` : ''} again`);
+    }
+    mapped.add(key);
+  });
+
+  const weights = dimension.sources.map((s: unknown) => (isRecord(s) && isPositiveNumber(s.weight) ? s.weight : 0));
+  checkWeightSum(weights, `${label} source weights`, errors);
+}
+
+/**
+ * Check a parsed methodology file against the format described above.
+ * Returns every problem found (empty when valid).
+ */
+export function validateMethodology(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return ['methodology must be a JSON object'];
+  }
+
+  for (const field of ['version', 'name']) {
+    if (typeof data[field] !== 'string' || data[field] === '') {
+      errors.push(`${field} must be a non-empty string`);
+    }
+  }
+
+  if (!isRecord(data.sources) || Object.keys(data.sources).length === 0) {
+    errors.push('sources must be a non-empty object');
+  } else {
+    for (const [id, source] of Object.entries(data.sources)) {
+      validateSource(id, source, errors);
+    }
+  }
+
+  if (!isRecord(data.dimensions) || Object.keys(data.dimensions).length === 0) {
+    errors.push('dimensions must be a non-empty object');
+  } else {
+    const sourceIds = isRecord(data.sources) ? Object.keys(data.sources) : [];
+    for (const [id, dimension] of Object.entries(data.dimensions)) {
+      validateDimension(id, dimension, sourceIds, errors);
+    }
+
+    const weights = Object.values(data.dimensions)
+      .map(d => (isRecord(d) && isPositiveNumber(d.weight) ? d.weight : 0));
+    checkWeightSum(weights, 'dimension weights', errors);
+  }
+
+  return errors;
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+interface MethodologyFile {
+  version: string;
+  name: string;
+  sources: Record<string, Omit<SourceConfig, 'id'> & { notes?: string[] }>;
+  dimensions: Record<string, { weight: number; sources: DimensionMapping['sources']; notes?: string[] }>;
+}
+
+/**
+ * Parse and validate methodology JSON. Throws an Error listing every
+ * problem when the file is invalid.
+ */
+export function parseMethodology(text: string, source: string = 'methodology'): Methodology {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${source}: ${(error as Error).message}`);
+  }
+
+  const errors = validateMethodology(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid methodology in ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  const file = data as MethodologyFile;
+
+  return {
+    version: file.version,
+    name: file.name,
+    hash: crypto.createHash('sha256').update(JSON.stringify(file)).digest('hex'),
+    dimensionWeights: Object.fromEntries(
+      Object.entries(file.dimensions).map(([dimension, d]) => [dimension, d.weight])
+    ),
+    sourceConfigs: Object.fromEntries(
+      Object.entries(file.sources).map(([id, s]) => [id, {
+        id,
+        name: s.name,
+        url: s.url,
+        inputRange: s.inputRange,
+        invert: s.invert,
+        ...(s.normalization ? { normalization: s.normalization } : {}),
+        ...(s.rangeTolerance !== undefined ? { rangeTolerance: s.rangeTolerance } : {}),
+        ...(s.maxAge !== undefined ? { maxAge: s.maxAge } : {}),
+        ...(s.staleWeight !== undefined ? { staleWeight: s.staleWeight } : {}),
+        ...(s.fields ? { fields: s.fields } : {}),
+      }])
+    ),
+    dimensionMappings: Object.entries(file.dimensions).map(([dimension, d]) => ({
+      dimension,
+      sources: d.sources.map(s => ({
+        sourceId: s.sourceId,
+        weight: s.weight,
+        ...(s.field ? { field: s.field } : {}),
+      })),
+    })),
+  };
+}
+
+/**
+ * Normalization settings for one field of a source: the source's config
+ * with the field's overrides (if any) applied.
+ */
+export function getFieldConfig<C extends Pick<SourceConfig, 'fields'>>(config: C, field?: string): C {
+  const overrides = field ? config.fields?.[field] : undefined;
+  return overrides ? { ...config, ...overrides } : config;
+}
+
+export function loadMethodology(filePath: string = DEFAULT_METHODOLOGY_PATH): Methodology {
+  return parseMethodology(fs.readFileSync(filePath, 'utf-8'), filePath);
+}
@@ -0,0 +1,155 @@
+/**
+ * Scoring Pipeline
+ *
+ * Runs the full scoring process shared by calculate.ts and generate.ts:
+ *
+ * 1. Score every country from a data snapshot (scoring.ts)
+ * 2. Apply documented estimates from data/exceptions.json
+ * 3. Impute dimensions that are still missing (imputation.ts)
+ * 4. Repeat for each past data year to build a score history,
+ *    and derive trends from that history
+ */
+
+import {
+  RawDataPoint,
+  CountryCalculation,
+  DIMENSION_WEIGHTS,
+  Dimension,
+  buildSourceDistributions,
+  calculateCountry,
+  calculateTrend,
+  getReferenceYear,
+} from './scoring';
+import { COUNTRY_METADATA } from './countries';
+import { CountryEstimates, buildDataSnapshot, getCountries, getDataYears } from './data-loader';
+import { DEFAULT_IMPUTATION_STRATEGY, imputeMissingDimensions } from './imputation';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ScoringOptions {
+  exceptions?: Map<string, CountryEstimates>;
+  imputation?: string;
+  // Dimension aggregation method (see AGGREGATION_METHODS in scoring.ts)
+  aggregation?: string;
+  // Print calculation steps for the countries this returns true for
+  verbose?: (countryIso3: string) => boolean;
+}
+
+// Share of the total dimension weight that must be backed by source data
+// for a past year's score to be included in a country's history
+export const MIN_HISTORY_COVERAGE = 0.5;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Share of the total dimension weight backed by source data (0-1).
+ */
+function sourceCoverage(calculation: CountryCalculation): number {
+  let covered = 0;
+  let total = 0;
+
+  for (const [dimension, data] of Object.entries(calculation.dimensions)) {
+    const weight = DIMENSION_WEIGHTS[dimension as Dimension] || 0;
+    total += weight;
+    if (data.sources.length > 0) covered += weight;
+  }
+
+  return total > 0 ? covered / total : 0;
+}
+
+// ============================================
+// PIPELINE
+// ============================================
+
+/**
+ * Score every country in `rawData` that has country metadata. `points`
+ * (every data year) sets the range for goalpost normalization and defaults
+ * to `rawData` itself.
+ */
+export function scoreCountries(
+  rawData: Map<string, RawDataPoint>,
+  options: ScoringOptions = {},
+  points: RawDataPoint[] = Array.from(rawData.values())
+): CountryCalculation[] {
+  const distributions = buildSourceDistributions(rawData, points);
+  const referenceYear = getReferenceYear(rawData);
+
+  const calculations = getCountries(rawData)
+    .filter(iso3 => COUNTRY_METADATA[iso3])
+    .map(iso3 => {
+      const meta = COUNTRY_METADATA[iso3];
+      return calculateCountry(
+        iso3,
+        meta.name,
+        meta.region,
+        meta.subregion,
+        rawData,
+        [],
+        options.exceptions?.get(iso3),
+        options.verbose?.(iso3) || false,
+        options.aggregation,
+        distributions,
+        referenceYear
+      );
+    });
+
+  imputeMissingDimensions(calculations, options.imputation || DEFAULT_IMPUTATION_STRATEGY);
+
+  return calculations;
+}
+
+/**
+ * Fairness scores for every data year before the latest one, keyed by
+ * country. Each year is scored from the newest data available up to that
+ * year; years where less than MIN_HISTORY_COVERAGE of a country's score is
+ * backed by source data are left out.
+ */
+export function calculateScoreHistory(
+  points: RawDataPoint[],
+  options: ScoringOptions = {}
+): Map<string, { year: number; score: number }[]> {
+  const history = new Map<string, { year: number; score: number }[]>();
+  const years = getDataYears(points).slice(0, -1);
+
+  for (const year of years) {
+    const calculations = scoreCountries(buildDataSnapshot(points, year), { ...options, verbose: undefined }, points);
+
+    for (const calculation of calculations) {
+      if (sourceCoverage(calculation) < MIN_HISTORY_COVERAGE) continue;
+
+      if (!history.has(calculation.iso3)) {
+        history.set(calculation.iso3, []);
+      }
+      history.get(calculation.iso3)!.push({ year, score: calculation.fairnessScore });
+    }
+  }
+
+  return history;
+}
+
+/**
+ * Score every country from the latest data, with a score history for
+ * past data years and a trend derived from it.
+ */
+export function scoreCountriesWithHistory(
+  points: RawDataPoint[],
+  options: ScoringOptions = {}
+): CountryCalculation[] {
+  const years = getDataYears(points);
+  const referenceYear = years[years.length - 1];
+  const history = calculateScoreHistory(points, options);
+
+  const calculations = scoreCountries(buildDataSnapshot(points), options, points);
+
+  for (const calculation of calculations) {
+    const past = history.get(calculation.iso3) || [];
+    calculation.history = [...past, { year: referenceYear, score: calculation.fairnessScore }];
+    calculation.trend = calculateTrend(calculation.fairnessScore, past, referenceYear);
+  }
+
+  return calculations;
+}
@@ -0,0 +1,422 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Source Data Quality Report
+ *
+ * Validation (validation.ts) catches data that is malformed; this script
+ * looks for data that is well-formed but implausible, for reviewers to
+ * check before publishing:
+ *
+ * - Outliers: values more than --z-threshold standard deviations from the
+ *   mean of all countries in the same source and year (e.g. a value off by
+ *   an order of magnitude)
+ * - Jumps: changes between a country's consecutive data years larger than
+ *   --jump-threshold of the source's `inputRange`
+ * - Disagreements: countries ranked far apart by two sources that measure
+ *   much the same thing (CORRELATED_SOURCES, e.g. transparency_cpi and
+ *   wgi_corruption), comparing percentile ranks so the sources' scales
+ *   don't matter
+ *
+ * The findings are written as a Markdown report.
+ *
+ * Usage:
+ *   npx ts-node scripts/world-fairness-score/qa.ts
+ *
+ * Options:
+ *   --z-threshold     Standard deviations from the mean that count as an
+ *                     outlier (default: 3)
+ *   --jump-threshold  Year-over-year change, as a share of the source's
+ *                     inputRange, that counts as a jump (default: 0.15)
+ *   --disagreement    Difference in percentile rank (0-100) between
+ *                     correlated sources that is reported (default: 40)
+ *   --methodology     Methodology file to use instead of methodology.json
+ *   --output          Write the report to this Markdown file
+ *                     (default: data/output/qa-report.md)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RawDataPoint, SOURCE_CONFIGS, getSourceConfig, sourceKey } from './scoring';
+import { COUNTRY_METADATA } from './countries';
+import { PROCESSED_DIR, loadDataPoints, buildDataSnapshot } from './data-loader';
+import { getArgValue, parseNumberArg, useMethodologyArg } from './cli';
+
+const DEFAULT_OUTPUT_PATH = path.join(__dirname, 'data/output/qa-report.md');
+
+// Fewer countries than this in a source and year give no meaningful
+// mean and standard deviation
+const MIN_PEERS = 10;
+
+/**
+ * Pairs of sources that measure closely related things, so a country
+ * should rank similarly in both.
+ */
+export const CORRELATED_SOURCES: [string, string][] = [
+  ['transparency_cpi', 'wgi_corruption'],
+  ['freedom_house_total', 'wgi_voice'],
+  ['freedom_house_civil', 'rsf_press_freedom'],
+  ['wgi_rule_of_law', 'wgi_effectiveness'],
+];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface QAOptions {
+  zThreshold: number;
+  jumpThreshold: number;
+  disagreement: number;
+}
+
+export interface Outlier {
+  source: string;
+  countryIso3: string;
+  year: number;
+  value: number;
+  mean: number;
+  standardDeviation: number;
+  zScore: number;
+}
+
+export interface Jump {
+  source: string;
+  countryIso3: string;
+  fromYear: number;
+  toYear: number;
+  fromValue: number;
+  toValue: number;
+  // Change as a share of the source's inputRange
+  change: number;
+}
+
+export interface Disagreement {
+  sources: [string, string];
+  countryIso3: string;
+  values: [number, number];
+  // Percentile rank (0-100, higher = better) among the countries both
+  // sources cover
+  ranks: [number, number];
+}
+
+export interface SourcePairSummary {
+  sources: [string, string];
+  countries: number;
+  // Spearman rank correlation, oriented so that 1 means full agreement
+  correlation: number;
+}
+
+export interface QAReport {
+  outliers: Outlier[];
+  jumps: Jump[];
+  disagreements: Disagreement[];
+  pairs: SourcePairSummary[];
+}
+
+export const DEFAULT_QA_OPTIONS: QAOptions = {
+  zThreshold: 3,
+  jumpThreshold: 0.15,
+  disagreement: 40,
+};
+
+// ============================================
+// CHECKS
+// ============================================
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(item);
+  }
+  return groups;
+}
+
+/**
+ * Values more than `zThreshold` standard deviations from the mean of their
+ * source and year, most extreme first.
+ */
+export function findOutliers(points: RawDataPoint[], zThreshold: number): Outlier[] {
+  const outliers: Outlier[] = [];
+
+  for (const group of groupBy(points, p => `${sourceKey(p.sourceId, p.field)}|${p.year}`).values()) {
+    if (group.length < MIN_PEERS) continue;
+
+    const mean = group.reduce((sum, p) => sum + p.value, 0) / group.length;
+    const standardDeviation = Math.sqrt(group.reduce((sum, p) => sum + (p.value - mean) ** 2, 0) / group.length);
+    if (standardDeviation === 0) continue;
+
+    for (const point of group) {
+      const zScore = (point.value - mean) / standardDeviation;
+      if (Math.abs(zScore) > zThreshold) {
+        outliers.push({
+          source: sourceKey(point.sourceId, point.field),
+          countryIso3: point.countryIso3,
+          year: point.year,
+          value: point.value,
+          mean,
+          standardDeviation,
+          zScore,
+        });
+      }
+    }
+  }
+
+  return outliers.sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore));
+}
+
+/**
+ * Changes between a country's consecutive data years in a source larger
+ * than `jumpThreshold` of the source's inputRange, largest first.
+ */
+export function findJumps(points: RawDataPoint[], jumpThreshold: number): Jump[] {
+  const jumps: Jump[] = [];
+
+  for (const series of groupBy(points, p => `${p.countryIso3}|${sourceKey(p.sourceId, p.field)}`).values()) {
+    const config = getSourceConfig(series[0].sourceId, series[0].field);
+    if (!config) continue;
+
+    const width = config.inputRange[1] - config.inputRange[0];
+    const sorted = [...series].sort((a, b) => a.year - b.year);
+
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1];
+      const point = sorted[i];
+      if (point.year === previous.year) continue;
+
+      const change = (point.value - previous.value) / width;
+      if (Math.abs(change) > jumpThreshold) {
+        jumps.push({
+          source: sourceKey(point.sourceId, point.field),
+          countryIso3: point.countryIso3,
+          fromYear: previous.year,
+          toYear: point.year,
+          fromValue: previous.value,
+          toValue: point.value,
+          change,
+        });
+      }
+    }
+  }
+
+  return jumps.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+}
+
+/**
+ * Percentile rank (0-100) of each value, averaging ties.
+ */
+function percentileRanks(values: number[]): number[] {
+  if (values.length <= 1) return values.map(() => 50);
+
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = ((i + j) / 2) / (values.length - 1) * 100;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = rank;
+    i = j + 1;
+  }
+
+  return ranks;
+}
+
+function pearson(xs: number[], ys: number[]): number {
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+}
+
+/**
+ * Compare the latest values of each pair in CORRELATED_SOURCES. Ranks are
+ * oriented by each source's `invert` setting, so higher is better in both.
+ */
+export function findDisagreements(
+  rawData: Map<string, RawDataPoint>,
+  threshold: number
+): { disagreements: Disagreement[]; pairs: SourcePairSummary[] } {
+  const disagreements: Disagreement[] = [];
+  const pairs: SourcePairSummary[] = [];
+
+  const bySource = groupBy(Array.from(rawData.values()).filter(p => !p.field), p => p.sourceId);
+
+  for (const [a, b] of CORRELATED_SOURCES) {
+    if (!SOURCE_CONFIGS[a] || !SOURCE_CONFIGS[b]) continue;
+
+    const valuesB = new Map((bySource.get(b) || []).map(p => [p.countryIso3, p.value]));
+    const common = (bySource.get(a) || [])
+      .filter(p => valuesB.has(p.countryIso3))
+      .map(p => ({ countryIso3: p.countryIso3, a: p.value, b: valuesB.get(p.countryIso3)! }));
+    if (common.length < MIN_PEERS) continue;
+
+    const orient = (source: string, value: number) => (SOURCE_CONFIGS[source].invert ? -value : value);
+    const ranksA = percentileRanks(common.map(c => orient(a, c.a)));
+    const ranksB = percentileRanks(common.map(c => orient(b, c.b)));
+
+    pairs.push({ sources: [a, b], countries: common.length, correlation: pearson(ranksA, ranksB) });
+
+    common.forEach((c, i) => {
+      if (Math.abs(ranksA[i] - ranksB[i]) > threshold) {
+        disagreements.push({
+          sources: [a, b],
+          countryIso3: c.countryIso3,
+          values: [c.a, c.b],
+          ranks: [ranksA[i], ranksB[i]],
+        });
+      }
+    });
+  }
+
+  disagreements.sort((x, y) => Math.abs(y.ranks[0] - y.ranks[1]) - Math.abs(x.ranks[0] - x.ranks[1]));
+  return { disagreements, pairs };
+}
+
+export function runQualityChecks(points: RawDataPoint[], options: QAOptions = DEFAULT_QA_OPTIONS): QAReport {
+  return {
+    outliers: findOutliers(points, options.zThreshold),
+    jumps: findJumps(points, options.jumpThreshold),
+    ...findDisagreements(buildDataSnapshot(points), options.disagreement),
+  };
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+function countryLabel(iso3: string): string {
+  const name = COUNTRY_METADATA[iso3]?.name;
+  return name ? `${name} (${iso3})` : iso3;
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+}
+
+function table(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ];
+}
+
+export function formatQAReport(report: QAReport, options: QAOptions, context: { methodology: string; dataPoints: number }): string {
+  const lines = [
+    '# Source Data Quality Report',
+    '',
+    `Generated ${new Date().toISOString()} from ${context.dataPoints} data points (methodology ${context.methodology}).`,
+    '',
+    ...table(['Check', 'Threshold', 'Findings'], [
+      ['Outliers', `\\|z\\| > ${options.zThreshold}`, report.outliers.length.toString()],
+      ['Year-over-year jumps', `> ${Math.round(options.jumpThreshold * 100)}% of inputRange`, report.jumps.length.toString()],
+      ['Correlated source disagreements', `> ${options.disagreement} percentile points`, report.disagreements.length.toString()],
+    ]),
+    '',
+    '## Outliers',
+    '',
+    `Values far from the mean of all countries in the same source and year (at least ${MIN_PEERS} countries).`,
+    '',
+  ];
+
+  if (report.outliers.length === 0) {
+    lines.push('None found.');
+  } else {
+    lines.push(...table(['Source', 'Country', 'Year', 'Value', 'Mean', 'Std. dev.', 'z'], report.outliers.map(o => [
+      `\`${o.source}\``, countryLabel(o.countryIso3), o.year.toString(), formatValue(o.value),
+      o.mean.toFixed(2), o.standardDeviation.toFixed(2), o.zScore.toFixed(1),
+    ])));
+  }
+
+  lines.push('', '## Year-over-year jumps', '', 'Changes between consecutive data years of the same country and source.', '');
+
+  if (report.jumps.length === 0) {
+    lines.push('None found.');
+  } else {
+    lines.push(...table(['Source', 'Country', 'Years', 'Values', 'Change'], report.jumps.map(j => [
+      `\`${j.source}\``, countryLabel(j.countryIso3), `${j.fromYear} → ${j.toYear}`,
+      `${formatValue(j.fromValue)} → ${formatValue(j.toValue)}`,
+      `${j.change > 0 ? '+' : ''}${Math.round(j.change * 100)}% of range`,
+    ])));
+  }
+
+  lines.push(
+    '',
+    '## Correlated source disagreements',
+    '',
+    'Percentile ranks (higher = better) among the countries both sources cover, using the latest value of each.',
+    '',
+  );
+
+  if (report.pairs.length > 0) {
+    lines.push(...table(['Sources', 'Countries', 'Rank correlation'], report.pairs.map(p => [
+      `\`${p.sources[0]}\` / \`${p.sources[1]}\``, p.countries.toString(), p.correlation.toFixed(2),
+    ])), '');
+  }
+
+  if (report.disagreements.length === 0) {
+    lines.push('None found.');
+  } else {
+    lines.push(...table(['Sources', 'Country', 'Values', 'Ranks'], report.disagreements.map(d => [
+      `\`${d.sources[0]}\` / \`${d.sources[1]}\``, countryLabel(d.countryIso3),
+      `${formatValue(d.values[0])} / ${formatValue(d.values[1])}`,
+      `${Math.round(d.ranks[0])} / ${Math.round(d.ranks[1])}`,
+    ])));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+function main() {
+  const args = process.argv.slice(2);
+
+  console.log('='.repeat(60));
+  console.log('World Fairness Score - Source Data Quality Report');
+  console.log('='.repeat(60));
+
+  const methodology = useMethodologyArg(args);
+
+  const options: QAOptions = {
+    zThreshold: parseNumberArg(args, '--z-threshold', DEFAULT_QA_OPTIONS.zThreshold),
+    jumpThreshold: parseNumberArg(args, '--jump-threshold', DEFAULT_QA_OPTIONS.jumpThreshold),
+    disagreement: parseNumberArg(args, '--disagreement', DEFAULT_QA_OPTIONS.disagreement),
+  };
+
+  if (!fs.existsSync(PROCESSED_DIR)) {
+    console.log('\nNo processed data found. Run fetch-all.ts first:');
+    console.log('  npx ts-node scripts/world-fairness-score/fetch-all.ts');
+    return;
+  }
+
+  const points = loadDataPoints();
+  const report = runQualityChecks(points, options);
+
+  console.log(`\nChecked ${points.length} data points`);
+  console.log(`  Outliers:                        ${report.outliers.length}`);
+  console.log(`  Year-over-year jumps:            ${report.jumps.length}`);
+  console.log(`  Correlated source disagreements: ${report.disagreements.length}`);
+
+  const outputPath = getArgValue(args, '--output') || DEFAULT_OUTPUT_PATH;
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, formatQAReport(report, options, {
+    methodology: `${methodology.name} v${methodology.version}`,
+    dataPoints: points.length,
+  }));
+  console.log(`\nSaved QA report to ${outputPath}`);
+}
+
+// Run
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,719 @@
+/**
+ * World Fairness Score - Scoring Engine
+ *
+ * Shared math used by both the calculator CLI (calculate.ts) and the
+ * score generator (generate.ts), so published scores and validation runs
+ * always come from the same code. The methodology itself (sources,
+ * weights and mappings) is loaded from methodology.json (methodology.ts).
+ *
+ * Rounding policy:
+ * - Normalized source values: 1 decimal place
+ * - Dimension scores: whole numbers
+ * - Fairness score: whole number
+ */
+
+import { Methodology, SourceConfig, DimensionMapping, getFieldConfig, loadMethodology } from './methodology';
+
+export type { NormalizationMode, SourceConfig, DimensionMapping } from './methodology';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RawDataPoint {
+  countryIso3: string;
+  countryName?: string;
+  sourceId: string;
+  field?: string;
+  year: number;
+  value: number;
+  estimated?: boolean;
+}
+
+export type Confidence = 'high' | 'medium' | 'low' | 'very_low';
+
+/**
+ * A documented estimate for a country/dimension without source data
+ * (from data/exceptions.json).
+ */
+export interface DimensionEstimate {
+  estimatedValue: number;
+  reason: string;
+  methodology: string;
+  confidence: Confidence;
+  sources: string[];
+}
+
+export interface DimensionScore {
+  score: number;
+  estimated?: boolean;
+  estimate?: Omit<DimensionEstimate, 'estimatedValue'>;
+  // Set when the score was filled in by the imputation pass (imputation.ts)
+  imputed?: {
+    method: string;
+    basedOn: string[];
+  };
+  // Excluded dimensions are left out of the fairness score and the
+  // remaining dimension weights are rescaled
+  excluded?: boolean;
+  sources: {
+    sourceId: string;
+    field?: string;
+    year: number;
+    // Years between `year` and the latest data year
+    age: number;
+    // Older than the source's maxAge; `weight` includes its staleWeight
+    stale?: boolean;
+    rawValue: number;
+    normalizedValue: number;
+    weight: number;
+    estimated: boolean;
+  }[];
+  // Oldest data year among the sources
+  oldestDataYear?: number;
+  confidence: Confidence;
+}
+
+export interface CountryCalculation {
+  iso3: string;
+  name: string;
+  region: string;
+  subregion: string;
+  fairnessScore: number;
+  dimensions: Record<string, DimensionScore>;
+  // Fairness scores computed for each data year, oldest first
+  history: { year: number; score: number }[];
+  trend: {
+    direction: 'improving' | 'declining' | 'stable';
+    change: number;
+    yearsCompared: number;
+  };
+  metadata: {
+    calculatedAt: string;
+    // Latest data year, which source ages are measured from
+    dataYear: number;
+    // Oldest data year used in any dimension
+    oldestDataYear?: number;
+    // Source values older than their source's maxAge
+    staleValues: number;
+    sourcesUsed: number;
+    estimatedFields: number;
+    confidence: Confidence;
+    // Dimension aggregation method (see AGGREGATION_METHODS)
+    aggregation: string;
+    // Methodology the score was calculated with (see methodology.ts)
+    methodology: { version: string; hash: string };
+  };
+}
+
+// ============================================
+// METHODOLOGY (see methodology.json)
+// ============================================
+
+// Dimension id, as defined in the methodology
+export type Dimension = string;
+
+// Filled from the active methodology by useMethodology(), which runs with
+// methodology.json when this module is loaded
+export const DIMENSION_WEIGHTS: Record<Dimension, number> = {};
+export const SOURCE_CONFIGS: Record<string, SourceConfig> = {};
+export const DIMENSION_MAPPINGS: DimensionMapping[] = [];
+
+let activeMethodology: Methodology;
+
+/**
+ * Make `methodology` the one used by every calculation. Call this before
+ * loading data or scoring, e.g. when a script is given `--methodology`.
+ */
+export function useMethodology(methodology: Methodology) {
+  for (const key of Object.keys(DIMENSION_WEIGHTS)) delete DIMENSION_WEIGHTS[key];
+  for (const key of Object.keys(SOURCE_CONFIGS)) delete SOURCE_CONFIGS[key];
+
+  Object.assign(DIMENSION_WEIGHTS, methodology.dimensionWeights);
+  Object.assign(SOURCE_CONFIGS, methodology.sourceConfigs);
+  DIMENSION_MAPPINGS.splice(0, DIMENSION_MAPPINGS.length, ...methodology.dimensionMappings);
+
+  activeMethodology = methodology;
+}
+
+export function getMethodology(): Methodology {
+  return activeMethodology;
+}
+
+/**
+ * Config of a source in the active methodology, with the normalization
+ * overrides of `field` applied. Undefined for unknown sources.
+ */
+export function getSourceConfig(sourceId: string, field?: string): SourceConfig | undefined {
+  const config = SOURCE_CONFIGS[sourceId];
+  return config && getFieldConfig(config, field);
+}
+
+useMethodology(loadMethodology());
+
+// Placeholder score for a dimension with no source data, until the
+// imputation pass replaces it (also the 'constant' imputation value)
+export const MISSING_DIMENSION_SCORE = 50;
+
+// ============================================
+// SOURCE DISTRIBUTIONS
+// ============================================
+
+/**
+ * Distribution of one source (and field) across countries, used by the
+ * distribution-aware normalization modes.
+ */
+export interface SourceDistribution {
+  // Values of every country in the current data snapshot, ascending
+  values: number[];
+  mean: number;
+  standardDeviation: number;
+  // Lowest and highest value across all countries and data years
+  historicalMin: number;
+  historicalMax: number;
+}
+
+// Keyed by `sourceKey(sourceId, field)`
+export type SourceDistributions = Map<string, SourceDistribution>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Key used to look up a data point in the raw data map:
+ * `${countryIso3}_${sourceId}` or `${countryIso3}_${sourceId}_${field}`
+ */
+export function dataKey(countryIso3: string, sourceId: string, field?: string): string {
+  return `${countryIso3}_${sourceId}${field ? '_' + field : ''}`;
+}
+
+/**
+ * Key for one measure of a source: `${sourceId}` or `${sourceId}_${field}`
+ */
+export function sourceKey(sourceId: string, field?: string): string {
+  return field ? `${sourceId}_${field}` : sourceId;
+}
+
+/**
+ * Latest data year in `rawData`, which source ages are measured from
+ * (the current year when there is no data).
+ */
+export function getReferenceYear(rawData: Map<string, RawDataPoint>): number {
+  let year = -Infinity;
+  for (const point of rawData.values()) {
+    year = Math.max(year, point.year);
+  }
+  return Number.isFinite(year) ? year : new Date().getFullYear();
+}
+
+/**
+ * Whether a value from `year` is older than the source's maxAge allows.
+ */
+export function isStale(year: number, config: Pick<SourceConfig, 'maxAge'>, referenceYear: number): boolean {
+  return config.maxAge !== undefined && referenceYear - year > config.maxAge;
+}
+
+function round(value: number, decimals: number = 0): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================
+// NORMALIZATION FUNCTIONS
+// ============================================
+
+/**
+ * Build the distribution of every source (and field) in `rawData`.
+ * `history` supplies the all-time range for goalpost normalization and
+ * defaults to the snapshot itself.
+ */
+export function buildSourceDistributions(
+  rawData: Map<string, RawDataPoint>,
+  history: Iterable<RawDataPoint> = rawData.values()
+): SourceDistributions {
+  const current = new Map<string, number[]>();
+  for (const point of rawData.values()) {
+    const key = sourceKey(point.sourceId, point.field);
+    if (!current.has(key)) current.set(key, []);
+    current.get(key)!.push(point.value);
+  }
+
+  const ranges = new Map<string, [number, number]>();
+  for (const point of history) {
+    const key = sourceKey(point.sourceId, point.field);
+    const range = ranges.get(key);
+    ranges.set(key, range
+      ? [Math.min(range[0], point.value), Math.max(range[1], point.value)]
+      : [point.value, point.value]);
+  }
+
+  const distributions: SourceDistributions = new Map();
+  for (const [key, values] of current) {
+    values.sort((a, b) => a - b);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    const [historicalMin, historicalMax] = ranges.get(key) || [values[0], values[values.length - 1]];
+
+    distributions.set(key, {
+      values,
+      mean,
+      standardDeviation: Math.sqrt(variance),
+      historicalMin: Math.min(historicalMin, values[0]),
+      historicalMax: Math.max(historicalMax, values[values.length - 1]),
+    });
+  }
+
+  return distributions;
+}
+
+function linearScale(value: number, min: number, max: number): number {
+  if (max <= min) return 0.5;
+  return (Math.max(min, Math.min(max, value)) - min) / (max - min);
+}
+
+/**
+ * Share of countries with a lower value, counting ties as half (0-1).
+ * A value that isn't in the distribution (e.g. from an earlier year) is
+ * ranked against all n countries rather than the n - 1 others.
+ */
+function percentileRank(value: number, sorted: number[]): number {
+  if (sorted.length <= 1) return 0.5;
+
+  const below = sorted.filter(v => v < value).length;
+  const equal = sorted.filter(v => v === value).length;
+  if (equal === 0) return below / sorted.length;
+  return (below + (equal - 1) / 2) / (sorted.length - 1);
+}
+
+/**
+ * Which end of `inputRange` a value is clamped to, if any. Only the
+ * range-based modes (linear, log) clamp.
+ */
+export function getClampBoundary(
+  value: number,
+  config: Pick<SourceConfig, 'inputRange' | 'normalization'>
+): 'min' | 'max' | null {
+  const mode = config.normalization || 'linear';
+  if (mode !== 'linear' && mode !== 'log') return null;
+
+  const [min, max] = config.inputRange;
+  if (value < min) return 'min';
+  if (value > max) return 'max';
+  return null;
+}
+
+export function normalizeValue(
+  value: number,
+  config: Pick<SourceConfig, 'inputRange' | 'invert' | 'normalization'>,
+  distribution?: SourceDistribution
+): number {
+  const mode = config.normalization || 'linear';
+  const [min, max] = config.inputRange;
+
+  if (mode !== 'linear' && mode !== 'log' && !distribution) {
+    throw new Error(`Normalization mode "${mode}" requires the source distribution`);
+  }
+
+  // Normalize to 0-1
+  let normalized: number;
+  switch (mode) {
+    case 'log':
+      // inputRange must be positive (checked by methodology.ts)
+      normalized = linearScale(Math.log(Math.max(min, Math.min(max, value))), Math.log(min), Math.log(max));
+      break;
+    case 'zscore': {
+      const { mean, standardDeviation } = distribution!;
+      const z = standardDeviation > 0 ? (value - mean) / standardDeviation : 0;
+      normalized = 1 / (1 + Math.exp(-z));
+      break;
+    }
+    case 'percentile':
+      normalized = percentileRank(value, distribution!.values);
+      break;
+    case 'goalpost':
+      normalized = linearScale(value, distribution!.historicalMin, distribution!.historicalMax);
+      break;
+    default:
+      // Clamp to range
+      normalized = linearScale(value, min, max);
+  }
+
+  // Invert if needed
+  if (config.invert) {
+    normalized = 1 - normalized;
+  }
+
+  // Scale to 0-100
+  return round(normalized * 100, 1);
+}
+
+// ============================================
+// DIMENSION AGGREGATION METHODS
+// ============================================
+
+export interface AggregationMethod {
+  id: string;
+  description: string;
+  // Combine dimension scores (0-100) with weights that sum to 1
+  aggregate(scores: number[], weights: number[]): number;
+}
+
+// Method used when none is selected
+export const DEFAULT_AGGREGATION_METHOD = 'arithmetic';
+
+// Floor applied before taking logarithms in the geometric mean, so a single
+// zero doesn't collapse the whole score (as in the UNDP HDI)
+const GEOMETRIC_MEAN_FLOOR = 1;
+
+// Points deducted per point of weighted standard deviation between
+// dimensions in the imbalance-penalty method
+const IMBALANCE_PENALTY = 0.5;
+
+// Share of the weakest-link score taken from the lowest dimension
+const WEAKEST_LINK_SHARE = 0.5;
+
+function weightedMean(scores: number[], weights: number[]): number {
+  return scores.reduce((sum, score, i) => sum + score * weights[i], 0);
+}
+
+export const AGGREGATION_METHODS: Record<string, AggregationMethod> = {
+  arithmetic: {
+    id: 'arithmetic',
+    description: 'Weighted arithmetic mean (fully compensatory)',
+    aggregate: weightedMean,
+  },
+  geometric: {
+    id: 'geometric',
+    description: 'Weighted geometric mean, as used by the UNDP HDI (partially compensatory)',
+    aggregate: (scores, weights) =>
+      Math.exp(scores.reduce((sum, score, i) => sum + Math.log(Math.max(GEOMETRIC_MEAN_FLOOR, score)) * weights[i], 0)),
+  },
+  'imbalance-penalty': {
+    id: 'imbalance-penalty',
+    description: `Weighted mean minus ${IMBALANCE_PENALTY} x the weighted standard deviation between dimensions`,
+    aggregate: (scores, weights) => {
+      const mean = weightedMean(scores, weights);
+      const variance = scores.reduce((sum, score, i) => sum + weights[i] * (score - mean) ** 2, 0);
+      return Math.max(0, mean - IMBALANCE_PENALTY * Math.sqrt(variance));
+    },
+  },
+  'weakest-link': {
+    id: 'weakest-link',
+    description: `Blend of the weighted mean and the lowest dimension (${WEAKEST_LINK_SHARE * 100}% minimum)`,
+    aggregate: (scores, weights) =>
+      (1 - WEAKEST_LINK_SHARE) * weightedMean(scores, weights) + WEAKEST_LINK_SHARE * Math.min(...scores),
+  },
+};
+
+export function getAggregationMethod(id: string): AggregationMethod {
+  const method = AGGREGATION_METHODS[id];
+  if (!method) {
+    throw new Error(
+      `Unknown aggregation method "${id}". Available: ${Object.keys(AGGREGATION_METHODS).join(', ')}`
+    );
+  }
+  return method;
+}
+
+// ============================================
+// CALCULATION FUNCTIONS
+// ============================================
+
+export function calculateDimensionScore(
+  dimension: string,
+  rawData: Map<string, RawDataPoint>,
+  countryIso3: string,
+  verbose: boolean = false,
+  distributions: SourceDistributions = buildSourceDistributions(rawData),
+  referenceYear: number = getReferenceYear(rawData)
+): DimensionScore {
+  const mapping = DIMENSION_MAPPINGS.find(d => d.dimension === dimension);
+  if (!mapping) {
+    throw new Error(`Unknown dimension: ${dimension}`);
+  }
+
+  const sourceScores: DimensionScore['sources'] = [];
+  let totalWeight = 0;
+  let estimatedCount = 0;
+
+  for (const source of mapping.sources) {
+    const dataPoint = rawData.get(dataKey(countryIso3, source.sourceId, source.field));
+
+    if (dataPoint) {
+      const config = getSourceConfig(source.sourceId, source.field);
+      if (!config) continue;
+
+      // Stale values count for less (or, with a staleWeight of 0, not at all)
+      const stale = isStale(dataPoint.year, config, referenceYear);
+      const weight = stale ? source.weight * (config.staleWeight ?? 1) : source.weight;
+      if (weight <= 0) continue;
+
+      const normalized = normalizeValue(
+        dataPoint.value,
+        config,
+        distributions.get(sourceKey(source.sourceId, source.field))
+      );
+
+      sourceScores.push({
+        sourceId: source.sourceId,
+        ...(source.field ? { field: source.field } : {}),
+        year: dataPoint.year,
+        age: referenceYear - dataPoint.year,
+        ...(stale ? { stale: true } : {}),
+        rawValue: dataPoint.value,
+        normalizedValue: normalized,
+        weight,
+        estimated: dataPoint.estimated || false,
+      });
+
+      totalWeight += weight;
+
+      if (dataPoint.estimated) estimatedCount++;
+
+      if (verbose) {
+        console.log(`  ${source.sourceId}${source.field ? ` (${source.field})` : ''}: ${dataPoint.value} (${dataPoint.year}${stale ? ', stale' : ''}) -> ${normalized} (weight: ${weight})`);
+      }
+    }
+  }
+
+  // No source data at all for this dimension
+  if (totalWeight === 0) {
+    return {
+      score: MISSING_DIMENSION_SCORE,
+      sources: [],
+      confidence: 'low',
+    };
+  }
+
+  // Calculate final score
+  const score = round(aggregateSources(sourceScores));
+
+  // Determine confidence
+  let confidence: Confidence = 'high';
+  if (totalWeight < 0.5 || estimatedCount > sourceScores.length / 2) {
+    confidence = 'low';
+  } else if (totalWeight < 0.8 || estimatedCount > 0) {
+    confidence = 'medium';
+  }
+
+  return {
+    score,
+    sources: sourceScores,
+    oldestDataYear: Math.min(...sourceScores.map(s => s.year)),
+    confidence,
+  };
+}
+
+/**
+ * Weighted mean of normalized source values (unrounded). Weights are
+ * rescaled over the sources that are present.
+ */
+export function aggregateSources(sources: { normalizedValue: number; weight: number }[]): number {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const source of sources) {
+    weightedSum += source.normalizedValue * source.weight;
+    totalWeight += source.weight;
+  }
+
+  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+}
+
+/**
+ * Combine dimension scores into a fairness score (unrounded) using
+ * `aggregation`, skipping excluded dimensions. Weights are rescaled over
+ * the dimensions that are included.
+ */
+export function aggregateDimensions(
+  dimensions: Record<string, Pick<DimensionScore, 'score' | 'excluded'>>,
+  weights: Record<string, number> = DIMENSION_WEIGHTS,
+  aggregation: string = DEFAULT_AGGREGATION_METHOD
+): number {
+  const method = getAggregationMethod(aggregation);
+  const scores: number[] = [];
+  const included: number[] = [];
+
+  for (const [dimension, data] of Object.entries(dimensions)) {
+    const weight = weights[dimension] || 0;
+    if (data.excluded || weight <= 0) continue;
+
+    scores.push(data.score);
+    included.push(weight);
+  }
+
+  const totalWeight = included.reduce((sum, w) => sum + w, 0);
+  if (totalWeight <= 0) return 0;
+
+  return method.aggregate(scores, included.map(w => w / totalWeight));
+}
+
+export function calculateFairnessScore(
+  dimensions: Record<string, DimensionScore>,
+  weights: Record<string, number> = DIMENSION_WEIGHTS,
+  aggregation: string = DEFAULT_AGGREGATION_METHOD
+): number {
+  return round(aggregateDimensions(dimensions, weights, aggregation));
+}
+
+/**
+ * Compare the current score with the score from ~5 years before
+ * `referenceYear` (the year the current score's data is from).
+ */
+export function calculateTrend(
+  currentScore: number,
+  historicalScores: { year: number; score: number }[],
+  referenceYear: number = new Date().getFullYear()
+): CountryCalculation['trend'] {
+  if (historicalScores.length === 0) {
+    return { direction: 'stable', change: 0, yearsCompared: 0 };
+  }
+
+  // Find score from ~5 years ago
+  const targetYear = referenceYear - 5;
+  const historicalScore = historicalScores
+    .filter(h => h.year <= targetYear)
+    .sort((a, b) => b.year - a.year)[0];
+
+  if (!historicalScore) {
+    return { direction: 'stable', change: 0, yearsCompared: 0 };
+  }
+
+  const change = Math.round(currentScore - historicalScore.score);
+  const cappedChange = Math.max(-15, Math.min(15, change));
+
+  let direction: 'improving' | 'declining' | 'stable' = 'stable';
+  if (cappedChange >= 3) direction = 'improving';
+  else if (cappedChange <= -3) direction = 'declining';
+
+  return {
+    direction,
+    change: cappedChange,
+    yearsCompared: referenceYear - historicalScore.year,
+  };
+}
+
+/**
+ * A dimension is missing when it has neither source data nor a documented
+ * estimate, i.e. it still holds the MISSING_DIMENSION_SCORE placeholder.
+ */
+export function isMissingDimension(dimensionScore: DimensionScore): boolean {
+  return dimensionScore.sources.length === 0 && !dimensionScore.estimated && !dimensionScore.imputed;
+}
+
+export function calculateOverallConfidence(dimensions: Record<string, DimensionScore>): Confidence {
+  const lowConfidenceCount = Object.values(dimensions)
+    .filter(d => d.confidence === 'low' || d.confidence === 'very_low').length;
+
+  if (lowConfidenceCount > 3) return 'low';
+  if (lowConfidenceCount > 0) return 'medium';
+  return 'high';
+}
+
+// ============================================
+// MAIN CALCULATION
+// ============================================
+
+/**
+ * Replace a dimension that has no source data with its documented estimate.
+ */
+export function applyDimensionEstimate(
+  dimensionScore: DimensionScore,
+  estimate: DimensionEstimate | undefined
+): DimensionScore {
+  if (!estimate || dimensionScore.sources.length > 0) {
+    return dimensionScore;
+  }
+
+  const { estimatedValue, ...details } = estimate;
+  return {
+    score: estimatedValue,
+    estimated: true,
+    estimate: details,
+    sources: [],
+    confidence: estimate.confidence,
+  };
+}
+
+export function calculateCountry(
+  countryIso3: string,
+  countryName: string,
+  region: string,
+  subregion: string,
+  rawData: Map<string, RawDataPoint>,
+  historicalScores: { year: number; score: number }[],
+  estimates: Partial<Record<Dimension, DimensionEstimate>> = {},
+  verbose: boolean = false,
+  aggregation: string = DEFAULT_AGGREGATION_METHOD,
+  distributions: SourceDistributions = buildSourceDistributions(rawData),
+  referenceYear: number = getReferenceYear(rawData)
+): CountryCalculation {
+  if (verbose) {
+    console.log(`\nCalculating: ${countryName} (${countryIso3})`);
+  }
+
+  // Calculate each dimension
+  const dimensions: Record<string, DimensionScore> = {};
+  for (const mapping of DIMENSION_MAPPINGS) {
+    dimensions[mapping.dimension] = applyDimensionEstimate(
+      calculateDimensionScore(mapping.dimension, rawData, countryIso3, verbose, distributions, referenceYear),
+      estimates[mapping.dimension]
+    );
+
+    if (verbose && dimensions[mapping.dimension].estimated) {
+      console.log(`  ${mapping.dimension}: estimated ${dimensions[mapping.dimension].score} (exception)`);
+    }
+  }
+
+  // Calculate final score
+  const fairnessScore = calculateFairnessScore(dimensions, DIMENSION_WEIGHTS, aggregation);
+
+  // Calculate trend
+  const trend = calculateTrend(fairnessScore, historicalScores, referenceYear);
+
+  // Count distinct sources used, estimated fields and stale values
+  const sourcesUsed = new Set<string>();
+  let estimatedFields = 0;
+  let staleValues = 0;
+  let oldestDataYear: number | undefined;
+  for (const dim of Object.values(dimensions)) {
+    for (const source of dim.sources) {
+      sourcesUsed.add(sourceKey(source.sourceId, source.field));
+      if (source.stale) staleValues++;
+      if (oldestDataYear === undefined || source.year < oldestDataYear) oldestDataYear = source.year;
+    }
+    estimatedFields += dim.sources.filter(s => s.estimated).length;
+    if (dim.estimated) estimatedFields++;
+  }
+
+  // Determine overall confidence
+  const confidence = calculateOverallConfidence(dimensions);
+
+  if (verbose) {
+    console.log(`  Final Score: ${fairnessScore}%`);
+    console.log(`  Trend: ${trend.direction} (${trend.change > 0 ? '+' : ''}${trend.change})`);
+  }
+
+  return {
+    iso3: countryIso3,
+    name: countryName,
+    region,
+    subregion,
+    fairnessScore,
+    dimensions,
+    history: [...historicalScores].sort((a, b) => a.year - b.year),
+    trend,
+    metadata: {
+      calculatedAt: new Date().toISOString(),
+      dataYear: referenceYear,
+      ...(oldestDataYear !== undefined ? { oldestDataYear } : {}),
+      staleValues,
+      sourcesUsed: sourcesUsed.size,
+      estimatedFields,
+      confidence,
+      aggregation,
+      methodology: { version: activeMethodology.version, hash: activeMethodology.hash },
+    },
+  };
+}
@@ -0,0 +1,367 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Weight Sensitivity Analysis
+ *
+ * The dimension weights and the source weights within each dimension are
+ * judgement calls. This script perturbs both sets of weights, recomputes
+ * every country's fairness score for each sample and reports how stable
+ * each country's rank is: its rank under the published weights, its
+ * median rank and a 90% interval across all samples.
+ *
+ * Normalized source values, documented estimates and imputed values are
+ * computed once with the published methodology and held fixed; only the
+ * weights vary between samples. Scores are compared unrounded so that
+ * ties don't distort the ranks.
+ *
+ * Usage:
+ *   npx ts-node scripts/world-fairness-score/sensitivity.ts
+ *
+ * Options:
+ *   --iterations     Number of weight samples (default: 5000)
+ *   --method         dirichlet | bounds (default: dirichlet)
+ *   --concentration  Dirichlet concentration; higher values keep samples
+ *                    closer to the published weights (default: 50)
+ *   --bounds         Maximum relative change per weight for the bounds
+ *                    method, e.g. 0.25 for ±25% (default: 0.25)
+ *   --seed           Random seed, for reproducible runs (default: 42)
+ *   --imputation     Strategy for dimensions without data (see imputation.ts)
+ *   --aggregation    Dimension aggregation method (see AGGREGATION_METHODS in scoring.ts)
+ *   --methodology    Methodology file to use instead of methodology.json
+ *   --output         Write the report to this JSON file
+ *                    (default: data/output/sensitivity.json)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CountryCalculation,
+  DIMENSION_WEIGHTS,
+  DIMENSION_MAPPINGS,
+  AGGREGATION_METHODS,
+  DEFAULT_AGGREGATION_METHOD,
+  aggregateSources,
+  aggregateDimensions,
+} from './scoring';
+import { PROCESSED_DIR, loadDataPoints, loadExceptions, buildDataSnapshot } from './data-loader';
+import { DEFAULT_IMPUTATION_STRATEGY, IMPUTATION_STRATEGIES } from './imputation';
+import { scoreCountries } from './pipeline';
+import { getArgValue, getChoiceArg, parseIntegerArg, parseNumberArg, useMethodologyArg } from './cli';
+
+const DEFAULT_OUTPUT_PATH = path.join(__dirname, 'data/output/sensitivity.json');
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SamplingMethod = 'dirichlet' | 'bounds';
+
+export interface SensitivityOptions {
+  iterations: number;
+  method: SamplingMethod;
+  concentration: number;
+  bounds: number;
+  seed: number;
+}
+
+export interface WeightSample {
+  dimensions: Record<string, number>;
+  // Source weights per dimension, in DIMENSION_MAPPINGS order
+  sources: Record<string, number[]>;
+}
+
+export interface CountrySensitivity {
+  iso3: string;
+  name: string;
+  fairnessScore: number;
+  baseRank: number;
+  medianRank: number;
+  // 5th and 95th percentile rank
+  interval: [number, number];
+  // Number of samples in which the country held each rank
+  rankDistribution: Record<number, number>;
+}
+
+export const DEFAULT_SENSITIVITY_OPTIONS: SensitivityOptions = {
+  iterations: 5000,
+  method: 'dirichlet',
+  concentration: 50,
+  bounds: 0.25,
+  seed: 42,
+};
+
+// ============================================
+// RANDOM SAMPLING
+// ============================================
+
+/**
+ * Seeded uniform random number generator on [0, 1) (mulberry32).
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(random: () => number): number {
+  // Box-Muller transform
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Gamma(shape, 1) sample using the Marsaglia-Tsang method.
+ */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+function normalizeWeights(weights: number[]): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return total > 0 ? weights.map(w => w / total) : weights;
+}
+
+/**
+ * Perturb a set of weights that sum to 1, keeping the sum at 1.
+ *
+ * dirichlet: sample from a Dirichlet distribution centred on `weights`
+ *            with concentration `options.concentration`
+ * bounds:    scale each weight by a uniform factor in [1 - b, 1 + b]
+ *            and renormalize
+ */
+export function perturbWeights(
+  weights: number[],
+  options: SensitivityOptions,
+  random: () => number
+): number[] {
+  if (weights.length < 2) return [...weights];
+
+  if (options.method === 'dirichlet') {
+    return normalizeWeights(
+      weights.map(w => (w > 0 ? sampleGamma(options.concentration * w, random) : 0))
+    );
+  }
+
+  return normalizeWeights(
+    weights.map(w => w * (1 - options.bounds + 2 * options.bounds * random()))
+  );
+}
+
+export function sampleWeights(options: SensitivityOptions, random: () => number): WeightSample {
+  const dimensionNames = Object.keys(DIMENSION_WEIGHTS);
+  const dimensionWeights = perturbWeights(dimensionNames.map(d => DIMENSION_WEIGHTS[d]), options, random);
+
+  const sources: Record<string, number[]> = {};
+  for (const mapping of DIMENSION_MAPPINGS) {
+    sources[mapping.dimension] = perturbWeights(mapping.sources.map(s => s.weight), options, random);
+  }
+
+  return {
+    dimensions: Object.fromEntries(dimensionNames.map((d, i) => [d, dimensionWeights[i]])),
+    sources,
+  };
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+/**
+ * Unrounded fairness score for `calculation` under `sample`. Dimensions
+ * without source data (estimated or imputed) keep their score.
+ */
+export function scoreWithWeights(calculation: CountryCalculation, sample: WeightSample): number {
+  const dimensions: Record<string, { score: number; excluded?: boolean }> = {};
+
+  for (const [dimension, data] of Object.entries(calculation.dimensions)) {
+    const mapping = DIMENSION_MAPPINGS.find(m => m.dimension === dimension);
+
+    if (!mapping || data.sources.length === 0) {
+      dimensions[dimension] = data;
+      continue;
+    }
+
+    dimensions[dimension] = {
+      score: aggregateSources(data.sources.map(source => {
+        const index = mapping.sources.findIndex(s => s.sourceId === source.sourceId && s.field === source.field);
+        // Keep the stale value penalty (source.weight is already reduced)
+        const penalty = source.weight / mapping.sources[index].weight;
+        return { normalizedValue: source.normalizedValue, weight: sample.sources[dimension][index] * penalty };
+      })),
+    };
+  }
+
+  return aggregateDimensions(dimensions, sample.dimensions, calculation.metadata.aggregation);
+}
+
+/**
+ * Rank (1 = fairest) of each country for the given scores.
+ */
+function rankScores(scores: number[]): number[] {
+  const order = scores.map((score, index) => ({ score, index })).sort((a, b) => b.score - a.score);
+  const ranks = new Array<number>(scores.length);
+  order.forEach((entry, position) => {
+    ranks[entry.index] = position + 1;
+  });
+  return ranks;
+}
+
+/**
+ * Value at percentile `p` (0-1) of an ascending array, nearest-rank method.
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = Math.max(0, Math.ceil(p * sorted.length) - 1);
+  return sorted[Math.min(index, sorted.length - 1)];
+}
+
+/**
+ * Rank distribution of every country across `options.iterations` weight
+ * samples (at least 1), sorted by base rank.
+ */
+export function analyzeSensitivity(
+  calculations: CountryCalculation[],
+  options: SensitivityOptions = DEFAULT_SENSITIVITY_OPTIONS
+): CountrySensitivity[] {
+  if (!(Number.isInteger(options.iterations) && options.iterations >= 1)) {
+    throw new Error(`iterations must be a whole number of at least 1, got ${options.iterations}`);
+  }
+
+  const random = createRandom(options.seed);
+  const baseSample: WeightSample = {
+    dimensions: { ...DIMENSION_WEIGHTS },
+    sources: Object.fromEntries(DIMENSION_MAPPINGS.map(m => [m.dimension, m.sources.map(s => s.weight)])),
+  };
+  const baseRanks = rankScores(calculations.map(c => scoreWithWeights(c, baseSample)));
+
+  const ranks: number[][] = calculations.map(() => []);
+  for (let i = 0; i < options.iterations; i++) {
+    const sample = sampleWeights(options, random);
+    const sampleRanks = rankScores(calculations.map(c => scoreWithWeights(c, sample)));
+    sampleRanks.forEach((rank, index) => ranks[index].push(rank));
+  }
+
+  return calculations
+    .map((calculation, index) => {
+      const sorted = ranks[index].sort((a, b) => a - b);
+      const rankDistribution: Record<number, number> = {};
+      for (const rank of sorted) {
+        rankDistribution[rank] = (rankDistribution[rank] || 0) + 1;
+      }
+
+      return {
+        iso3: calculation.iso3,
+        name: calculation.name,
+        fairnessScore: calculation.fairnessScore,
+        baseRank: baseRanks[index],
+        medianRank: percentile(sorted, 0.5),
+        interval: [percentile(sorted, 0.05), percentile(sorted, 0.95)] as [number, number],
+        rankDistribution,
+      };
+    })
+    .sort((a, b) => a.baseRank - b.baseRank);
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+function main() {
+  const args = process.argv.slice(2);
+
+  console.log('='.repeat(60));
+  console.log('World Fairness Score - Weight Sensitivity Analysis');
+  console.log('='.repeat(60));
+
+  const methodology = useMethodologyArg(args);
+
+  const method = getChoiceArg(args, '--method', ['dirichlet', 'bounds'], DEFAULT_SENSITIVITY_OPTIONS.method) as SamplingMethod;
+
+  const options: SensitivityOptions = {
+    iterations: parseIntegerArg(args, '--iterations', DEFAULT_SENSITIVITY_OPTIONS.iterations, 1),
+    method,
+    concentration: parseNumberArg(args, '--concentration', DEFAULT_SENSITIVITY_OPTIONS.concentration),
+    bounds: parseNumberArg(args, '--bounds', DEFAULT_SENSITIVITY_OPTIONS.bounds),
+    seed: parseIntegerArg(args, '--seed', DEFAULT_SENSITIVITY_OPTIONS.seed),
+  };
+  if (options.bounds >= 1) {
+    console.error('ERROR: --bounds must be below 1');
+    process.exit(1);
+  }
+
+  const imputation = getChoiceArg(args, '--imputation', Object.keys(IMPUTATION_STRATEGIES), DEFAULT_IMPUTATION_STRATEGY);
+  const aggregation = getChoiceArg(args, '--aggregation', Object.keys(AGGREGATION_METHODS), DEFAULT_AGGREGATION_METHOD);
+
+  if (!fs.existsSync(PROCESSED_DIR)) {
+    console.log('\nNo processed data found. Run fetch-all.ts first:');
+    console.log('  npx ts-node scripts/world-fairness-score/fetch-all.ts');
+    return;
+  }
+
+  const points = loadDataPoints();
+  const calculations = scoreCountries(buildDataSnapshot(points), {
+    exceptions: loadExceptions(),
+    imputation,
+    aggregation,
+  }, points);
+
+  const settings = options.method === 'dirichlet'
+    ? `concentration ${options.concentration}`
+    : `±${Math.round(options.bounds * 100)}%`;
+  console.log(`\nSampling ${options.iterations} weight sets for ${calculations.length} countries (${options.method}, ${settings}, seed ${options.seed})...`);
+
+  const results = analyzeSensitivity(calculations, options);
+
+  console.log('\n' + '='.repeat(60));
+  console.log('RANK UNCERTAINTY');
+  console.log('='.repeat(60));
+  console.log(`${'Rank'.padStart(4)}  ${'Country'.padEnd(25)} ${'Score'.padStart(5)}  ${'Median'.padStart(6)}  90% interval`);
+
+  for (const r of results) {
+    console.log(
+      `${r.baseRank.toString().padStart(4)}. ${r.name.padEnd(25)} ${r.fairnessScore.toString().padStart(5)}  ` +
+      `${r.medianRank.toString().padStart(6)}  ${r.interval[0]}-${r.interval[1]}`
+    );
+  }
+
+  const outputPath = getArgValue(args, '--output') || DEFAULT_OUTPUT_PATH;
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    methodology: { version: methodology.version, hash: methodology.hash },
+    imputation,
+    aggregation,
+    options,
+    countries: results,
+  }, null, 2));
+  console.log(`\nSaved sensitivity report to ${outputPath}`);
+}
+
+// Run
+if (require.main === module) {
+  main();
+}
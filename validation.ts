@@ -0,0 +1,340 @@
+/**
+ * Data Validation
+ *
+ * Checks the files written by the fetchers before they are scored:
+ *
+ * - data/processed/*.json must be arrays of ProcessedDataPoints
+ *   (PROCESSED_POINT_SCHEMA) with finite values, whose source IDs are
+ *   defined in the methodology, whose values lie within the source's
+ *   `inputRange` (give or take its `rangeTolerance`), whose countries are
+ *   ISO 3166 codes (country-codes.ts), and with at most one
+ *   value per (country, source, field, year). A dimension mapping with a
+ *   `field` must match data points of its source with that field, when
+ *   there is data for the source
+ * - data/raw/<rawFile> must match the `rawSchema` of its source plugin,
+ *   when the plugin declares one
+ *
+ * Problems are reported as errors, which stop generate.ts, or warnings
+ * (e.g. countries without metadata in countries.ts, which are not scored,
+ * or values outside `inputRange` but within its `rangeTolerance`, which
+ * linear and log normalization clamp; see calculate.ts --clamp-report).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PROCESSED_DIR } from './data-loader';
+import { Methodology, SourceConfig, getFieldConfig } from './methodology';
+import { COUNTRY_METADATA } from './countries';
+import { isIso3Code } from './country-codes';
+import { RAW_DIR, SourcePlugin } from './fetch/plugin';
+
+// Issues listed per file before the rest are summarised
+const MAX_ISSUES_PER_FILE = 10;
+
+// ============================================
+// SCHEMAS
+// ============================================
+
+/**
+ * Shape of a JSON value. Objects may have properties beyond the ones
+ * listed; properties are required unless named in `optional`.
+ */
+export type Schema =
+  | { type: 'string'; pattern?: RegExp }
+  | { type: 'number'; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; properties: Record<string, Schema>; optional?: string[] }
+  // Object with arbitrary keys (e.g. ISO3 codes) and values of one shape
+  | { type: 'record'; values: Schema }
+  | { type: 'anyOf'; schemas: Schema[] };
+
+export const ISO3_SCHEMA: Schema = { type: 'string', pattern: /^[A-Z]{3}$/ };
+export const YEAR_SCHEMA: Schema = { type: 'number', integer: true };
+
+export const PROCESSED_POINT_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    countryIso3: ISO3_SCHEMA,
+    sourceId: { type: 'string', pattern: /^[a-z0-9_]+$/ },
+    field: { type: 'string' },
+    year: YEAR_SCHEMA,
+    value: { type: 'number' },
+    estimated: { type: 'boolean' },
+  },
+  optional: ['field', 'estimated'],
+};
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check `value` against `schema`. Returns every problem found, labelled
+ * with its path from `label` (empty when valid).
+ */
+export function checkSchema(value: unknown, schema: Schema, label: string = 'value'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${label} must be a string, got ${describe(value)}`];
+      if (schema.pattern && !schema.pattern.test(value)) return [`${label} ${describe(value)} doesn't match ${schema.pattern}`];
+      return [];
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${label} must be a number, got ${describe(value)}`];
+      if (schema.integer && !Number.isInteger(value)) return [`${label} must be a whole number, got ${value}`];
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${label} must be true or false, got ${describe(value)}`];
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${label} must be an array, got ${describe(value)}`];
+      return value.flatMap((item, index) => checkSchema(item, schema.items, `${label}[${index}]`));
+
+    case 'object': {
+      if (!isRecord(value)) return [`${label} must be an object, got ${describe(value)}`];
+      const optional = schema.optional || [];
+      return Object.entries(schema.properties).flatMap(([name, property]) => {
+        if (value[name] === undefined) {
+          return optional.includes(name) ? [] : [`${label}.${name} is missing`];
+        }
+        return checkSchema(value[name], property, `${label}.${name}`);
+      });
+    }
+
+    case 'record':
+      if (!isRecord(value)) return [`${label} must be an object, got ${describe(value)}`];
+      return Object.entries(value).flatMap(([key, item]) => checkSchema(item, schema.values, `${label}.${key}`));
+
+    case 'anyOf': {
+      const results = schema.schemas.map(s => checkSchema(value, s, label));
+      if (results.some(errors => errors.length === 0)) return [];
+      // Report the closest match
+      return results.reduce((best, errors) => (errors.length < best.length ? errors : best));
+    }
+  }
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  // File name, relative to its data directory
+  file: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  files: number;
+  dataPoints: number;
+  issues: ValidationIssue[];
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function readJson(filePath: string, file: string, issues: ValidationIssue[]): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    issues.push({ severity: 'error', file, message: `Invalid JSON: ${(error as Error).message}` });
+    return undefined;
+  }
+}
+
+/**
+ * Validate every data/processed/*.json file against the processed data
+ * point schema and the active methodology.
+ */
+export function validateProcessedData(methodology: Methodology, processedDir: string = PROCESSED_DIR): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const files = fs.existsSync(processedDir) ? fs.readdirSync(processedDir).filter(f => f.endsWith('.json')).sort() : [];
+  const currentYear = new Date().getFullYear();
+
+  // (country, source, field, year) -> file of the first point seen
+  const seen = new Map<string, string>();
+  // Source -> first file with its data, and the fields it has ('' for
+  // data points without a field)
+  const sourceFields = new Map<string, { file: string; fields: Set<string> }>();
+  let dataPoints = 0;
+
+  for (const file of files) {
+    const data = readJson(path.join(processedDir, file), file, issues);
+    if (data === undefined) continue;
+
+    if (!Array.isArray(data)) {
+      issues.push({ severity: 'error', file, message: `Must be an array of data points, got ${describe(data)}` });
+      continue;
+    }
+
+    const withoutMetadata = new Set<string>();
+    // Source (and field) -> values outside its inputRange but within its
+    // rangeTolerance
+    const outOfRange = new Map<string, { config: SourceConfig; values: number[] }>();
+
+    data.forEach((point: unknown, index: number) => {
+      const label = `[${index}]`;
+      const errors = checkSchema(point, PROCESSED_POINT_SCHEMA, label);
+      if (errors.length > 0) {
+        issues.push(...errors.map(message => ({ severity: 'error' as const, file, message })));
+        return;
+      }
+
+      dataPoints++;
+      const { countryIso3, sourceId, field, year, value } = point as {
+        countryIso3: string; sourceId: string; field?: string; year: number; value: number;
+      };
+      const name = `${label} ${countryIso3} ${sourceId}${field ? ` (${field})` : ''} ${year}`;
+
+      const sourceConfig = methodology.sourceConfigs[sourceId];
+      const config = sourceConfig && getFieldConfig(sourceConfig, field);
+      if (!config) {
+        issues.push({ severity: 'error', file, message: `${name}: unknown source ID "${sourceId}" (not in methodology sources)` });
+      } else if (value < config.inputRange[0] || value > config.inputRange[1]) {
+        const [min, max] = config.inputRange;
+        const tolerance = (config.rangeTolerance || 0) * (max - min);
+        if (value < min - tolerance || value > max + tolerance) {
+          const allowed = tolerance > 0 ? ` (tolerance ${tolerance})` : '';
+          issues.push({ severity: 'error', file, message: `${name}: value ${value} is outside inputRange ${min} to ${max}${allowed}` });
+        } else {
+          const key = `${sourceId}${field ? ` (${field})` : ''}`;
+          if (!outOfRange.has(key)) outOfRange.set(key, { config, values: [] });
+          outOfRange.get(key)!.values.push(value);
+        }
+      }
+
+      if (!sourceFields.has(sourceId)) sourceFields.set(sourceId, { file, fields: new Set() });
+      sourceFields.get(sourceId)!.fields.add(field || '');
+
+      if (!isIso3Code(countryIso3)) {
+        issues.push({ severity: 'error', file, message: `${name}: "${countryIso3}" is not an ISO 3166 country code` });
+      } else if (!COUNTRY_METADATA[countryIso3]) {
+        withoutMetadata.add(countryIso3);
+      }
+
+      if (year < 1900 || year > currentYear) {
+        issues.push({ severity: 'error', file, message: `${name}: year ${year} is out of range (1900-${currentYear})` });
+      }
+
+      const key = [countryIso3, sourceId, field || '', year].join('|');
+      const previous = seen.get(key);
+      if (previous) {
+        issues.push({ severity: 'error', file, message: `${name}: duplicate data point (also in ${previous})` });
+      } else {
+        seen.set(key, file);
+      }
+    });
+
+    for (const [source, { config, values }] of outOfRange) {
+      const mode = config.normalization || 'linear';
+      const effect = mode === 'linear' || mode === 'log' ? 'clamped when scored' : `not used by ${mode} normalization`;
+      issues.push({
+        severity: 'warning',
+        file,
+        message: `${source}: ${values.length} value(s) outside inputRange ${config.inputRange.join(' to ')} within its rangeTolerance ` +
+          `(${Math.min(...values)} to ${Math.max(...values)}; ${effect})`,
+      });
+    }
+
+    if (withoutMetadata.size > 0) {
+      issues.push({
+        severity: 'warning',
+        file,
+        message: `No metadata in countries.ts (not scored): ${Array.from(withoutMetadata).sort().join(', ')}`,
+      });
+    }
+  }
+
+  // Mappings that can never match: the source has data, but not for the
+  // mapped field (sources without any data are optional downloads)
+  for (const mapping of methodology.dimensionMappings) {
+    for (const source of mapping.sources) {
+      const found = sourceFields.get(source.sourceId);
+      if (!found || found.fields.has(source.field || '')) continue;
+
+      const fields = Array.from(found.fields).map(f => f || '(none)').sort().join(', ');
+      issues.push({
+        severity: 'error',
+        file: found.file,
+        message: `${mapping.dimension} maps ${source.sourceId} ${source.field ? `field "${source.field}"` : 'without a field'}, ` +
+          `which has no data points (fields in the data: ${fields})`,
+      });
+    }
+  }
+
+  return { files: files.length, dataPoints, issues };
+}
+
+/**
+ * Validate the raw file of every source plugin against the plugin's
+ * `rawSchema`. Missing raw files are warnings, since the processed data
+ * may still be present.
+ */
+export function validateRawData(plugins: SourcePlugin[], rawDir: string = RAW_DIR): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  let files = 0;
+
+  for (const plugin of plugins) {
+    const file = plugin.rawFile;
+    const filePath = path.join(rawDir, file);
+
+    if (!fs.existsSync(filePath)) {
+      issues.push({ severity: 'warning', file, message: `Missing (run fetch/${plugin.id}.ts)` });
+      continue;
+    }
+
+    files++;
+    const data = readJson(filePath, file, issues);
+    if (data === undefined || !plugin.rawSchema) continue;
+
+    for (const message of checkSchema(data, plugin.rawSchema, 'raw')) {
+      issues.push({ severity: 'error', file, message });
+    }
+  }
+
+  return { files, dataPoints: 0, issues };
+}
+
+export function hasErrors(report: ValidationReport): boolean {
+  return report.issues.some(issue => issue.severity === 'error');
+}
+
+/**
+ * Readable report listing the issues of each file, errors first.
+ */
+export function formatValidationReport(report: ValidationReport, title: string): string {
+  const errors = report.issues.filter(i => i.severity === 'error').length;
+  const warnings = report.issues.length - errors;
+  const lines = [`${title}: ${report.files} files, ${errors} errors, ${warnings} warnings`];
+
+  const byFile = new Map<string, ValidationIssue[]>();
+  for (const issue of report.issues) {
+    if (!byFile.has(issue.file)) byFile.set(issue.file, []);
+    byFile.get(issue.file)!.push(issue);
+  }
+
+  for (const [file, issues] of byFile) {
+    lines.push(`  ${file}`);
+    const sorted = [...issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+    for (const issue of sorted.slice(0, MAX_ISSUES_PER_FILE)) {
+      lines.push(`    ${issue.severity === 'error' ? 'ERROR' : 'WARNING'}: ${issue.message}`);
+    }
+    if (sorted.length > MAX_ISSUES_PER_FILE) {
+      lines.push(`    ... and ${sorted.length - MAX_ISSUES_PER_FILE} more`);
+    }
+  }
+
+  return lines.join('\n');
+}